@@ -0,0 +1,6 @@
+// Add to a tsconfig's `types`, or reference from a .d.ts file:
+// /// <reference types="agoda-devfeedback-vite/client" />
+declare module 'virtual:vite-timing/client' {
+  // Ends the page-load metric of the current page, at most once per page
+  export const markReady: () => void;
+}
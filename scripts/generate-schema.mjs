@@ -0,0 +1,155 @@
+// Generates the JSON Schema of every metrics payload from the types in
+// src/types.ts, so the schema shipped to collector implementers and the one
+// payloads are validated against at runtime can never drift from the types.
+//
+//   node scripts/generate-schema.mjs           writes the schema files
+//   node scripts/generate-schema.mjs --check   fails if they are out of date
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const typesFile = path.join(root, 'src', 'types.ts');
+const jsonSchemaFile = path.join(root, 'schema', 'metrics-payload.schema.json');
+const moduleSchemaFile = path.join(root, 'src', 'generated', 'payload-schema.ts');
+
+const program = ts.createProgram([typesFile], {
+  strict: true,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  skipLibCheck: true,
+});
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesFile);
+const definitions = {};
+
+// The repo documents fields with `//` comments rather than JSDoc
+const getDescription = (symbol) => {
+  const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+  if (!declaration) return undefined;
+  const text = declaration.getSourceFile().getFullText();
+  const lines = (ts.getLeadingCommentRanges(text, declaration.pos) ?? [])
+    .filter((range) => range.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map((range) => text.slice(range.pos + 2, range.end).trim());
+  return lines.length > 0 ? lines.join(' ') : undefined;
+};
+
+const unionSchema = (members) => {
+  const schemas = members.map(toSchema);
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  if (schemas.every((schema) => 'const' in schema || schema.type === 'null')) {
+    return { enum: schemas.map((schema) => ('const' in schema ? schema.const : null)) };
+  }
+  if (schemas.every((schema) => Object.keys(schema).length === 1 && typeof schema.type === 'string')) {
+    return { type: schemas.map((schema) => schema.type) };
+  }
+  return { anyOf: schemas };
+};
+
+const objectSchema = (type) => {
+  const properties = {};
+  const required = [];
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations[0];
+    const schema = toSchema(checker.getTypeOfSymbolAtLocation(property, declaration));
+    const description = getDescription(property);
+    properties[property.name] = description ? { description, ...schema } : schema;
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      required.push(property.name);
+    }
+  }
+
+  const schema = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  const stringIndex = checker.getIndexInfosOfType(type).find((info) => info.keyType.flags & ts.TypeFlags.String);
+  if (stringIndex) {
+    schema.additionalProperties = toSchema(stringIndex.type);
+  }
+  return schema;
+};
+
+function toSchema(type) {
+  if (type.flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+  if (type.flags & ts.TypeFlags.String) return { type: 'string' };
+  if (type.flags & ts.TypeFlags.Number) return { type: 'number' };
+  if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+  if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value };
+  if (type.flags & ts.TypeFlags.BooleanLiteral) return { const: checker.typeToString(type) === 'true' };
+
+  if (type.isUnion()) {
+    // Optional properties include undefined, which JSON has no value for;
+    // `boolean` inside a union shows up as `true | false`
+    let members = type.types.filter((member) => !(member.flags & ts.TypeFlags.Undefined));
+    const booleans = members.filter((member) => member.flags & ts.TypeFlags.BooleanLiteral);
+    if (booleans.length === 2) {
+      members = members.filter((member) => !booleans.includes(member));
+      members.push(checker.getBooleanType());
+    }
+    return unionSchema(members);
+  }
+
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: toSchema(checker.getTypeArguments(type)[0]) };
+  }
+
+  if (type.flags & ts.TypeFlags.Object) {
+    const symbol = type.getSymbol();
+    if (symbol && symbol.flags & ts.SymbolFlags.Interface) {
+      if (!(symbol.name in definitions)) {
+        definitions[symbol.name] = {};
+        definitions[symbol.name] = objectSchema(type);
+      }
+      return { $ref: `#/$defs/${symbol.name}` };
+    }
+    return objectSchema(type);
+  }
+
+  throw new Error(`Unsupported type in payload: ${checker.typeToString(type)}`);
+}
+
+const payloadSymbol = checker
+  .getExportsOfModule(checker.getSymbolAtLocation(sourceFile))
+  .find((symbol) => symbol.name === 'MetricsPayload');
+const payloadType = checker.getDeclaredTypeOfSymbol(payloadSymbol);
+
+const schema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'MetricsPayload',
+  description: 'A single metrics event, told apart by its `type` field.',
+  oneOf: payloadType.types.map(toSchema),
+  $defs: Object.fromEntries(Object.entries(definitions).sort(([a], [b]) => a.localeCompare(b))),
+};
+
+const json = JSON.stringify(schema, null, 2);
+const outputs = new Map([
+  [jsonSchemaFile, `${json}\n`],
+  [
+    moduleSchemaFile,
+    '// Generated by scripts/generate-schema.mjs from src/types.ts; do not edit.\n' +
+      "import type { JsonSchema } from '../utils/schema';\n\n" +
+      `export const payloadSchema: JsonSchema = ${json};\n`,
+  ],
+]);
+
+if (process.argv.includes('--check')) {
+  const stale = [...outputs].filter(([file, content]) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content);
+  if (stale.length > 0) {
+    process.stderr.write(
+      `Out of date: ${stale.map(([file]) => path.relative(root, file)).join(', ')}. Run npm run generate:schema.\n`
+    );
+    process.exit(1);
+  }
+} else {
+  for (const [file, content] of outputs) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { Rollup } from 'vite';
+import { collectChunkSources, getBootstrapChunkNames, getBootstrapChunkSize, measureBundle } from '../utils/bundle-stats';
+
+const chunk = (fileName: string, overrides: Partial<Rollup.OutputChunk> = {}) =>
+  ({
+    type: 'chunk',
+    fileName,
+    code: `console.log(${JSON.stringify(fileName)});`,
+    isEntry: false,
+    facadeModuleId: null,
+    imports: [],
+    ...overrides
+  }) as Rollup.OutputChunk;
+
+const toBundle = (...outputs: Array<Rollup.OutputChunk | Rollup.OutputAsset>): Rollup.OutputBundle =>
+  Object.fromEntries(outputs.map((output) => [output.fileName, output]));
+
+describe('Bundle Stats Utils', () => {
+  describe('getBootstrapChunkNames', () => {
+    it('should include html entries and their static imports only', () => {
+      const bundle = toBundle(
+        chunk('index.js', { isEntry: true, facadeModuleId: '/app/index.html', imports: ['vendor.js'] }),
+        chunk('vendor.js', { imports: ['shared.js'] }),
+        chunk('shared.js'),
+        chunk('lazy.js', { imports: ['shared.js'] }),
+        chunk('worker.js', { isEntry: true, facadeModuleId: '/app/src/worker.ts' })
+      );
+
+      expect(Array.from(getBootstrapChunkNames(bundle)).sort()).toEqual(['index.js', 'shared.js', 'vendor.js']);
+    });
+
+    it('should fall back to all entry chunks without an html entry', () => {
+      const bundle = toBundle(
+        chunk('lib.js', { isEntry: true, facadeModuleId: '/lib/src/index.ts' }),
+        chunk('other.js')
+      );
+
+      expect(Array.from(getBootstrapChunkNames(bundle))).toEqual(['lib.js']);
+    });
+  });
+
+  describe('measureBundle', () => {
+    it('should record raw and compressed sizes per chunk', () => {
+      const bundle = toBundle(
+        chunk('index.js', { isEntry: true, facadeModuleId: '/app/index.html', code: 'a'.repeat(1000) }),
+        chunk('lazy.js', { code: 'b'.repeat(500) }),
+        { type: 'asset', fileName: 'style.css', source: 'body{}' } as Rollup.OutputAsset
+      );
+
+      const sources = collectChunkSources(bundle);
+      const stats = measureBundle([sources]);
+
+      expect(getBootstrapChunkSize(sources)).toBe(1000);
+      expect(stats.chunks).toHaveLength(2);
+      expect(stats.bootstrapChunkSizeBytes).toBe(1000);
+      expect(stats.totalChunkSizeBytes).toBe(1500);
+      expect(stats.bootstrapChunkGzipSizeBytes).toBeGreaterThan(0);
+      expect(stats.bootstrapChunkGzipSizeBytes).toBeLessThan(1000);
+      expect(stats.bootstrapChunkBrotliSizeBytes).toBeLessThan(1000);
+    });
+
+    it('should report the bootstrap size of the largest output', () => {
+      const outputs = [
+        collectChunkSources(toBundle(chunk('a.js', { isEntry: true, code: 'aaaa' }))),
+        collectChunkSources(toBundle(chunk('a.cjs', { isEntry: true, code: 'aaaaaa' }))),
+      ];
+
+      const stats = measureBundle(outputs);
+
+      expect(stats.chunks).toHaveLength(2);
+      expect(stats.bootstrapChunkSizeBytes).toBe(6);
+      expect(stats.totalChunkSizeBytes).toBe(10);
+    });
+  });
+});
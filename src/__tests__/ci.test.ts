@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { detectCi } from '../utils/ci';
+
+describe('CI Utils', () => {
+  describe('detectCi', () => {
+    it('should report local development as not CI', () => {
+      expect(detectCi({})).toEqual({ ci: false });
+      expect(detectCi({ CI: 'false' })).toEqual({ ci: false });
+    });
+
+    it('should detect GitHub Actions pull request builds', () => {
+      expect(detectCi({
+        CI: 'true',
+        GITHUB_ACTIONS: 'true',
+        GITHUB_RUN_ID: '9001',
+        GITHUB_JOB: 'build',
+        GITHUB_REF: 'refs/pull/42/merge'
+      })).toEqual({
+        ci: true,
+        ciProvider: 'github-actions',
+        ciPipelineId: '9001',
+        ciJobId: 'build',
+        ciPullRequest: '42'
+      });
+    });
+
+    it('should detect the other supported providers', () => {
+      expect(detectCi({ GITLAB_CI: 'true', CI_PIPELINE_ID: '1', CI_JOB_ID: '2', CI_MERGE_REQUEST_IID: '3' }))
+        .toMatchObject({ ciProvider: 'gitlab-ci', ciPipelineId: '1', ciJobId: '2', ciPullRequest: '3' });
+      expect(detectCi({ JENKINS_URL: 'http://jenkins', JOB_NAME: 'app', BUILD_NUMBER: '7', CHANGE_ID: '12' }))
+        .toMatchObject({ ciProvider: 'jenkins', ciPipelineId: 'app', ciJobId: '7', ciPullRequest: '12' });
+      expect(detectCi({ TF_BUILD: 'True', BUILD_BUILDID: '5', SYSTEM_PULLREQUEST_PULLREQUESTID: '8' }))
+        .toMatchObject({ ciProvider: 'azure-pipelines', ciPipelineId: '5', ciPullRequest: '8' });
+      expect(detectCi({ TEAMCITY_VERSION: '2023.1', BUILD_NUMBER: '11' }))
+        .toMatchObject({ ciProvider: 'teamcity', ciJobId: '11' });
+      expect(detectCi({ BUILDKITE: 'true', BUILDKITE_BUILD_ID: 'b', BUILDKITE_PULL_REQUEST: 'false' }))
+        .toEqual({ ci: true, ciProvider: 'buildkite', ciPipelineId: 'b' });
+    });
+
+    it('should fall back to an unknown provider when only CI is set', () => {
+      expect(detectCi({ CI: '1' })).toEqual({ ci: true, ciProvider: 'unknown' });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { MetricsPayload } from '../types';
+import { compareMetrics, createReport, parseSelector, readMetrics } from '../cli/metrics';
+import { formatComparison, formatReport } from '../cli/format';
+import { runCli } from '../cli/run';
+
+const metric = (type: MetricsPayload['type'], timeTaken: number, fields: Record<string, unknown> = {}) =>
+  ({
+    schemaVersion: 1,
+    id: 'id',
+    userName: 'dev',
+    cpuCount: 8,
+    hostname: 'laptop',
+    platform: 'linux',
+    os: 'Linux',
+    timeTaken,
+    branch: 'main',
+    projectName: 'app',
+    repository: 'repo',
+    repositoryName: 'repo',
+    timestamp: Date.parse('2024-05-06T10:00:00Z'),
+    builtAt: null,
+    nodeVersion: 'v20.0.0',
+    v8Version: '11.3',
+    commitSha: '3f2a91c0ffee',
+    dirtyFileCount: 0,
+    customIdentifier: null,
+    ci: false,
+    type,
+    ...(type === 'hmr' && { file: 'src/app.ts' }),
+    ...fields
+  }) as MetricsPayload;
+
+describe('CLI', () => {
+  describe('parseSelector', () => {
+    it('should match branches, commit prefixes and whole-day date ranges', () => {
+      const payload = metric('hmr', 100, { branch: 'feature/x', timestamp: Date.parse('2024-05-31T23:00:00Z') });
+
+      expect(parseSelector('branch:feature/x').matches(payload)).toBe(true);
+      expect(parseSelector('commit:3f2a9').matches(payload)).toBe(true);
+      expect(parseSelector('date:2024-05-01..2024-05-31').matches(payload)).toBe(true);
+      expect(parseSelector('date:2024-06-01..').matches(payload)).toBe(false);
+      expect(() => parseSelector('tag:v1')).toThrow('Unknown selector "tag"');
+      expect(() => parseSelector('date:soon..')).toThrow('Invalid date: soon');
+    });
+  });
+
+  describe('createReport', () => {
+    it('should summarise each metric type, the slowest files and weekly trends', () => {
+      const report = createReport(
+        'all metrics',
+        [
+          metric('hmr', 100),
+          metric('hmr', 300, { file: 'src/slow.ts' }),
+          metric('hmr', 200, { timestamp: Date.parse('2024-05-13T10:00:00Z') }),
+          metric('vite', 5000)
+        ],
+        { topFiles: 1, interval: 'week' }
+      );
+
+      expect(report.types).toEqual([
+        { type: 'hmr', count: 3, total: 600, p50: 200, p95: 300, max: 300 },
+        { type: 'vite', count: 1, total: 5000, p50: 5000, p95: 5000, max: 5000 }
+      ]);
+      expect(report.slowestFiles).toEqual([{ file: 'src/slow.ts', count: 1, average: 300, max: 300 }]);
+      expect(report.trends.map(point => [point.period, point.type, point.count])).toEqual([
+        ['2024-05-06', 'hmr', 2],
+        ['2024-05-06', 'vite', 1],
+        ['2024-05-13', 'hmr', 1]
+      ]);
+    });
+  });
+
+  describe('compareMetrics', () => {
+    it('should compare percentiles of two selections as markdown', () => {
+      const payloads = [
+        metric('hmr', 400),
+        metric('hmr', 200, { branch: 'vite-6' }),
+        metric('full-reload', 900, { branch: 'vite-6', file: null, reason: 'dep-optimization', reloadSentTime: null })
+      ];
+
+      const comparison = compareMetrics(payloads, parseSelector('branch:main'), parseSelector('branch:vite-6'));
+
+      expect(comparison.types.map(type => [type.type, type.p50Change])).toEqual([
+        ['hmr', -0.5],
+        ['full-reload', null]
+      ]);
+      expect(formatComparison(comparison, 'markdown')).toContain('| hmr | 1 | 1 | 400ms | 200ms | -50% | 400ms | 200ms | -50% |');
+    });
+  });
+
+  describe('runCli', () => {
+    let dir: string;
+    let stdout: string;
+    let stderr: string;
+    const output = {
+      stdout: (text: string) => { stdout += text; },
+      stderr: (text: string) => { stderr += text; }
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-cli-'));
+      stdout = '';
+      stderr = '';
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read JSON lines, skip unusable ones and print a report', () => {
+      const file = path.join(dir, 'metrics.jsonl');
+      fs.writeFileSync(file, [JSON.stringify(metric('hmr', 120)), '{"type":"hmr"}', 'not json', ''].join('\n'));
+
+      expect(readMetrics([file]).skippedLines).toBe(2);
+      expect(runCli(['report', file, '--format', 'json'], output)).toBe(0);
+      expect(JSON.parse(stdout)).toMatchObject({ eventCount: 1, types: [{ type: 'hmr', p50: 120 }] });
+      expect(stderr).toBe("Skipped 2 lines that aren't valid metrics\n");
+    });
+
+    it('should report on metrics recorded with fields redacted', () => {
+      const file = path.join(dir, 'metrics.jsonl');
+      // As written with privacy.denyFields set to these fields
+      const redacted = (payload: MetricsPayload) => {
+        const record: Partial<MetricsPayload> = { ...payload };
+        delete record.hostname;
+        delete record.userName;
+        delete record.commitSha;
+        delete record.timestamp;
+        return JSON.stringify(record);
+      };
+      fs.writeFileSync(file, [redacted(metric('hmr', 120)), redacted(metric('hmr', 80))].join('\n'));
+
+      expect(runCli(['report', file, '--format', 'json'], output)).toBe(0);
+      expect(JSON.parse(stdout)).toMatchObject({ eventCount: 2, types: [{ type: 'hmr', count: 2 }] });
+      expect(stderr).toBe('');
+
+      stdout = '';
+      expect(runCli(['compare', file, '--base', 'commit:3f2a', '--head', 'date:2024-05-01..'], output)).toBe(0);
+    });
+
+    it('should fail with the usage on bad arguments', () => {
+      expect(runCli(['compare', path.join(dir, 'missing.jsonl')], output)).toBe(1);
+      expect(stderr).toContain('No metrics file at');
+      expect(stderr).toContain('Usage:');
+    });
+
+    it('should render an empty table report', () => {
+      expect(formatReport(createReport('branch:none', [], { topFiles: 5, interval: 'day' }), 'table')).toBe(
+        'Metrics report: branch:none (0 events)\n\nNo metrics matched.\n'
+      );
+    });
+  });
+});
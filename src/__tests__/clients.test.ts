@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import type { ViteDevServer } from 'vite';
+import { getBrowserFamily, getClientCount, getConnectedClientCount } from '../utils/clients';
+
+describe('Client Utils', () => {
+  describe('getBrowserFamily', () => {
+    it('should detect common browsers from the user agent', () => {
+      expect(getBrowserFamily('Mozilla/5.0 (Windows NT 10.0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('edge');
+      expect(getBrowserFamily('Mozilla/5.0 (Macintosh) AppleWebKit/537.36 Chrome/120.0 Safari/537.36')).toBe('chrome');
+      expect(getBrowserFamily('Mozilla/5.0 (Macintosh) Gecko/20100101 Firefox/120.0')).toBe('firefox');
+      expect(getBrowserFamily('Mozilla/5.0 (iPhone) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1')).toBe('safari');
+    });
+
+    it('should fall back for missing or unrecognised user agents', () => {
+      expect(getBrowserFamily(undefined)).toBe('unknown');
+      expect(getBrowserFamily('curl/8.0')).toBe('other');
+    });
+  });
+
+  describe('getConnectedClientCount', () => {
+    it('should count websocket clients and expect at least one', () => {
+      expect(getConnectedClientCount({ ws: { clients: new Set([1, 2, 3]) } } as unknown as ViteDevServer)).toBe(3);
+      expect(getConnectedClientCount({ ws: { clients: new Set() } } as unknown as ViteDevServer)).toBe(1);
+      expect(getConnectedClientCount({ ws: {} } as unknown as ViteDevServer)).toBe(1);
+    });
+  });
+
+  describe('getClientCount', () => {
+    it('should count websocket clients, or return null when they are not exposed', () => {
+      expect(getClientCount({ ws: { clients: new Set() } } as unknown as ViteDevServer)).toBe(0);
+      expect(getClientCount({ ws: {} } as unknown as ViteDevServer)).toBeNull();
+    });
+  });
+});
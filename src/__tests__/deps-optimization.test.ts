@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOptimizerObserver, type OptimizerRun } from '../utils/deps-optimization';
+
+// Runs one esbuild build through the observer, like Vite's scan or optimizer
+const runBuild = (
+  observer: ReturnType<typeof createOptimizerObserver>,
+  initialOptions: Record<string, unknown>,
+  errors: unknown[] = []
+) => {
+  const build = { initialOptions, onStart: vi.fn(), onEnd: vi.fn() };
+  void observer.setup(build as unknown as Parameters<typeof observer.setup>[0]);
+  return {
+    start: () => build.onStart.mock.calls[0][0](),
+    end: () => build.onEnd.mock.calls[0][0]({ errors })
+  };
+};
+
+describe('Deps Optimization Utils', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report the initial run with its scan, then what later runs added', () => {
+    const now = vi.spyOn(Date, 'now');
+    const runs: OptimizerRun[] = [];
+    const observer = createOptimizerObserver((run) => runs.push(run));
+
+    const scan = runBuild(observer, { write: false });
+    now.mockReturnValue(1000);
+    scan.start();
+    now.mockReturnValue(1300);
+    scan.end();
+
+    const initial = runBuild(observer, { metafile: true, entryPoints: ['react', 'react-dom_client'] });
+    initial.start();
+    now.mockReturnValue(2500);
+    initial.end();
+
+    const rerun = runBuild(observer, { metafile: true, entryPoints: ['react', 'react-dom_client', 'lodash-es'] });
+    now.mockReturnValue(9000);
+    rerun.start();
+    now.mockReturnValue(9400);
+    rerun.end();
+
+    expect(runs).toEqual([
+      {
+        kind: 'initial',
+        startedAt: 1300,
+        finishedAt: 2500,
+        dependencies: ['react', 'react-dom_client'],
+        newDependencies: [],
+        scanTime: 300,
+        failed: false
+      },
+      {
+        kind: 're-optimization',
+        startedAt: 9000,
+        finishedAt: 9400,
+        dependencies: ['react', 'react-dom_client', 'lodash-es'],
+        newDependencies: ['lodash-es'],
+        scanTime: null,
+        failed: false
+      }
+    ]);
+  });
+
+  it('should compare the next run against the last successful one', () => {
+    const runs: OptimizerRun[] = [];
+    const observer = createOptimizerObserver((run) => runs.push(run));
+
+    const failed = runBuild(observer, { metafile: true, entryPoints: { react: '/node_modules/react/index.js' } }, [{ text: 'boom' }]);
+    failed.start();
+    failed.end();
+    const retried = runBuild(observer, { metafile: true, entryPoints: { react: '/node_modules/react/index.js' } });
+    retried.start();
+    retried.end();
+
+    expect(runs.map((run) => [run.kind, run.failed, run.dependencies])).toEqual([
+      ['initial', true, ['react']],
+      ['initial', false, ['react']]
+    ]);
+  });
+});
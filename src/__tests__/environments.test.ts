@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createEnvironmentTracker, getEnvironmentName } from '../utils/environments';
+
+describe('Environment Utils', () => {
+  describe('getEnvironmentName', () => {
+    it('should prefer the Vite 6 environment over the ssr flag', () => {
+      expect(getEnvironmentName({ environment: { name: 'edge' } }, true)).toBe('edge');
+      expect(getEnvironmentName({}, true)).toBe('ssr');
+      expect(getEnvironmentName(undefined)).toBe('client');
+    });
+  });
+
+  describe('createEnvironmentTracker', () => {
+    it('should complete an update when the invalidated module is transformed again', () => {
+      const tracker = createEnvironmentTracker();
+      tracker.recordTransform('src/render.ts', 'ssr');
+      tracker.recordInvalidation('src/render.ts', 1000, 1020);
+
+      expect(tracker.recordTransform('src/render.ts', 'ssr')).toEqual({
+        file: 'src/render.ts',
+        environment: 'ssr',
+        changeDetectedAt: 1000,
+        invalidatedAt: 1020,
+      });
+      expect(tracker.recordTransform('src/render.ts', 'ssr')).toBeNull();
+    });
+
+    it('should only time server environments that loaded the file', () => {
+      const tracker = createEnvironmentTracker();
+      tracker.recordTransform('src/app.ts', 'client');
+      tracker.recordTransform('src/app.ts', 'ssr');
+      tracker.recordInvalidation('src/app.ts', 1000, 1020, 'edge');
+      tracker.recordInvalidation('src/app.ts', 1000, 1020, 'client');
+
+      expect(tracker.recordTransform('src/app.ts', 'client')).toBeNull();
+      expect(tracker.recordTransform('src/app.ts', 'ssr')).toBeNull();
+      expect(tracker.isServerOnly('src/app.ts')).toBe(false);
+    });
+
+    it('should drop updates nothing loaded again in time', () => {
+      const tracker = createEnvironmentTracker();
+      tracker.recordTransform('src/render.ts', 'ssr');
+      tracker.recordInvalidation('src/render.ts', 1000, 1020);
+      tracker.expire(31_000, 30_000);
+
+      expect(tracker.recordTransform('src/render.ts', 'ssr')).toBeNull();
+      expect(tracker.isServerOnly('src/render.ts')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createErrorTracker, getErrorCategory } from '../utils/errors';
+
+describe('Error Utils', () => {
+  describe('getErrorCategory', () => {
+    it('should categorize syntax, type and resolve errors', () => {
+      expect(getErrorCategory({ message: 'Transform failed with 1 error: Expected ";" but found "}"' })).toBe('syntax');
+      expect(getErrorCategory({ message: 'Unexpected token (3:4)', plugin: 'vite:react-babel' })).toBe('syntax');
+      expect(
+        getErrorCategory({
+          message:
+            'Failed to parse source for import analysis because the content contains invalid JS syntax. If you are using JSX, make sure to name the file with the .jsx or .tsx extension.',
+          plugin: 'vite:import-analysis'
+        })
+      ).toBe('syntax');
+      expect(getErrorCategory({ message: 'Failed to resolve import "./missing" from "src/app.ts". Does the file exist?' })).toBe('resolve');
+      expect(getErrorCategory({ message: "TS2322: Type 'string' is not assignable to type 'number'." })).toBe('type');
+      expect(getErrorCategory({ message: 'Something broke', plugin: 'vite-plugin-checker' })).toBe('type');
+      expect(getErrorCategory({ message: 'Something broke' })).toBe('other');
+    });
+  });
+
+  describe('createErrorTracker', () => {
+    it('should time a broken file from its first failure until it recovers', () => {
+      const tracker = createErrorTracker();
+      tracker.recordError('src/app.ts', { message: 'Unexpected token' }, 1000);
+      tracker.recordOverlayShown('src/app.ts', 1100);
+      tracker.recordOverlayShown('src/app.ts', 1500);
+      tracker.recordError('src/app.ts', { message: 'Failed to resolve import "./x"', plugin: 'vite:import-analysis' }, 2000);
+
+      expect(tracker.recover('src/app.ts')).toEqual({
+        plugin: 'vite:import-analysis',
+        category: 'resolve',
+        failedAt: 1000,
+        errorCount: 2,
+        overlayShownAt: 1100,
+      });
+      expect(tracker.recover('src/app.ts')).toBeNull();
+    });
+  });
+});
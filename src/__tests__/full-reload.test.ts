@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getFullReloadReason, isConfigFile, setPendingFullReload, takePendingFullReload } from '../utils/full-reload';
+
+describe('Full Reload Utils', () => {
+  describe('getFullReloadReason', () => {
+    it('should classify reloads by the triggering file', () => {
+      expect(getFullReloadReason(null)).toBe('unknown');
+      expect(getFullReloadReason('index.html')).toBe('html-change');
+      expect(getFullReloadReason('src/main.ts')).toBe('no-hmr-boundary');
+    });
+  });
+
+  describe('isConfigFile', () => {
+    const config = {
+      configFile: '/app/vite.config.ts',
+      configFileDependencies: ['/app/config/aliases.ts']
+    };
+
+    it('should match the config file, its dependencies and env files', () => {
+      expect(isConfigFile('/app/vite.config.ts', config)).toBe(true);
+      expect(isConfigFile('/app/config/aliases.ts', config)).toBe(true);
+      expect(isConfigFile('/app/.env.local', config)).toBe(true);
+      expect(isConfigFile('/app/src/main.ts', config)).toBe(false);
+    });
+  });
+
+  describe('takePendingFullReload', () => {
+    it('should hand out a pending reload only once', () => {
+      setPendingFullReload({ file: 'src/main.ts', reason: 'no-hmr-boundary', changeDetectedAt: 1000 });
+
+      expect(takePendingFullReload(2000, 30_000)?.file).toBe('src/main.ts');
+      expect(takePendingFullReload(2000, 30_000)).toBeNull();
+    });
+
+    it('should drop a reload no page load followed in time', () => {
+      setPendingFullReload({ file: 'src/main.ts', reason: 'no-hmr-boundary', changeDetectedAt: 1000 });
+
+      expect(takePendingFullReload(31_000, 30_000)).toBeNull();
+    });
+  });
+});
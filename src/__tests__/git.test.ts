@@ -0,0 +1,139 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createGitInfoService, findGitDirs, readHead } from '../utils/git';
+
+vi.mock('child_process', () => ({
+  execFile: vi.fn((_command: string, _args: string[], _options: object, callback: (error: null, stdout: string) => void) =>
+    callback(null, ' M src/a.ts\n')
+  ),
+}));
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+
+describe('Git Utils', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-git-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('readHead', () => {
+    it('should read the branch and its loose ref', () => {
+      write('.git/HEAD', 'ref: refs/heads/feature/login\n');
+      write('.git/refs/heads/feature/login', `${SHA_A}\n`);
+
+      expect(readHead(findGitDirs(path.join(root, 'src'))!)).toEqual({ branch: 'feature/login', commitSha: SHA_A });
+    });
+
+    it('should fall back to packed-refs', () => {
+      write('.git/HEAD', 'ref: refs/heads/main\n');
+      write('.git/packed-refs', `# pack-refs with: peeled fully-peeled sorted\n${SHA_B} refs/heads/main\n`);
+
+      expect(readHead(findGitDirs(root)!)).toEqual({ branch: 'main', commitSha: SHA_B });
+    });
+
+    it('should report a detached HEAD like git rev-parse does', () => {
+      write('.git/HEAD', `${SHA_A}\n`);
+
+      expect(readHead(findGitDirs(root)!)).toEqual({ branch: 'HEAD', commitSha: SHA_A });
+    });
+  });
+
+  describe('findGitDirs', () => {
+    it('should follow a worktree to its own HEAD and the shared refs', () => {
+      write('main/.git/worktrees/wt/HEAD', 'ref: refs/heads/wt-branch\n');
+      write('main/.git/worktrees/wt/commondir', '../..\n');
+      write('main/.git/refs/heads/wt-branch', `${SHA_B}\n`);
+      write('wt/.git', `gitdir: ${path.join(root, 'main/.git/worktrees/wt')}\n`);
+
+      const dirs = findGitDirs(path.join(root, 'wt'))!;
+
+      expect(dirs.commonDir).toBe(path.join(root, 'main/.git'));
+      expect(readHead(dirs)).toEqual({ branch: 'wt-branch', commitSha: SHA_B });
+    });
+
+    it('should follow a relative submodule pointer', () => {
+      write('.git/modules/lib/HEAD', `${SHA_A}\n`);
+      write('lib/.git', 'gitdir: ../.git/modules/lib\n');
+
+      expect(findGitDirs(path.join(root, 'lib'))).toEqual({
+        gitDir: path.join(root, '.git/modules/lib'),
+        commonDir: path.join(root, '.git/modules/lib')
+      });
+    });
+  });
+
+  describe('createGitInfoService', () => {
+    it('should cache branch and commit until invalidated', () => {
+      write('.git/HEAD', 'ref: refs/heads/main\n');
+      write('.git/refs/heads/main', `${SHA_A}\n`);
+      const service = createGitInfoService(root);
+
+      expect(service.get().commitSha).toBe(SHA_A);
+
+      write('.git/refs/heads/main', `${SHA_B}\n`);
+      expect(service.get().commitSha).toBe(SHA_A);
+
+      service.invalidate();
+      expect(service.get().commitSha).toBe(SHA_B);
+      service.close();
+    });
+
+    it('should pick up a commit to the current branch through the refs watcher', async () => {
+      write('.git/HEAD', 'ref: refs/heads/main\n');
+      write('.git/refs/heads/main', `${SHA_A}\n`);
+      const service = createGitInfoService(root);
+      expect(service.get().commitSha).toBe(SHA_A);
+
+      write('.git/refs/heads/main', `${SHA_B}\n`);
+
+      await vi.waitFor(() => expect(service.get().commitSha).toBe(SHA_B), { timeout: 2000, interval: 20 });
+      service.close();
+    });
+
+    it('should count dirty files at most once a minute while files keep changing', async () => {
+      vi.useFakeTimers();
+      vi.mocked(execFile).mockClear();
+      write('.git/HEAD', 'ref: refs/heads/main\n');
+      write('.git/refs/heads/main', `${SHA_A}\n`);
+      const service = createGitInfoService(root);
+
+      service.get();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(execFile).toHaveBeenCalledTimes(1);
+      expect(service.get().dirtyFileCount).toBe(1);
+
+      for (let save = 0; save < 5; save++) {
+        service.refreshDirtyCount();
+        await vi.advanceTimersByTimeAsync(1000);
+      }
+      expect(execFile).toHaveBeenCalledTimes(1);
+
+      service.invalidate();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(execFile).toHaveBeenCalledTimes(2);
+
+      service.close();
+      vi.useRealTimers();
+    });
+
+    it('should report unknown outside a repository', () => {
+      const service = createGitInfoService(path.parse(root).root);
+
+      expect(service.get()).toEqual({ branch: 'unknown', commitSha: 'unknown', dirtyFileCount: null });
+    });
+  });
+});
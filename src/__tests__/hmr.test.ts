@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { computeHmrPhases } from '../utils/hmr';
+
+describe('HMR Utils', () => {
+  describe('computeHmrPhases', () => {
+    it('should compute each phase from consecutive timestamps', () => {
+      const phases = computeHmrPhases(
+        { file: 'src/app.ts', changeDetectedAt: 1000, hotUpdateAt: 1010, updateSentAt: 1050 },
+        { file: 'src/app.ts', beforeUpdateTimestamp: 1060, clientTimestamp: 1200 }
+      );
+
+      expect(phases).toEqual({
+        changeToHotUpdate: 10,
+        hotUpdateToSend: 40,
+        sendToClient: 10,
+        clientApply: 140
+      });
+    });
+
+    it('should leave phases with missing timestamps empty', () => {
+      const phases = computeHmrPhases(
+        { file: 'src/app.ts', changeDetectedAt: 1000 },
+        { file: 'src/app.ts', clientTimestamp: 1200 }
+      );
+
+      expect(phases).toEqual({
+        changeToHotUpdate: null,
+        hotUpdateToSend: null,
+        sendToClient: null,
+        clientApply: null
+      });
+    });
+
+    it('should clamp negative phases caused by clock skew to zero', () => {
+      const phases = computeHmrPhases(
+        { file: 'src/app.ts', changeDetectedAt: 1000, hotUpdateAt: 1010, updateSentAt: 1050 },
+        { file: 'src/app.ts', beforeUpdateTimestamp: 1040, clientTimestamp: 1200 }
+      );
+
+      expect(phases.sendToClient).toBe(0);
+    });
+  });
+});
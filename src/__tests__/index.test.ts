@@ -1,13 +1,24 @@
-import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
-import viteTimingPlugin from '../index';
+import { vi, describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import viteTimingPlugin, { callbackReporter, type MetricsPayload } from '../index';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { EventEmitter } from 'events';
-import type { ViteDevServer } from 'vite';
+import type { Plugin, ViteDevServer } from 'vite';
 import { createMockServer  } from './utils/test-utils';
+import { _TEST_resetStartupState } from '../utils/startup';
+
+// Undelivered metrics are spooled to the cache dir, keep them out of the tree
+const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-'));
+
+afterAll(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
 
 class MockRequest extends EventEmitter {
  url: string;
  method: string;
+ headers: Record<string, string> = {};
 
  constructor(url: string, method = 'POST') {
    super();
@@ -54,6 +65,8 @@ describe('viteTimingPlugin', () => {
  });
  
  it('should handle file changes and track timing', async () => {
+  // Paths are relative to the Vite root
+  (mockServer.config as any).root = '/test-root';
   plugin.configureServer?.(mockServer as ViteDevServer);
   
   // Set initial time
@@ -61,9 +74,6 @@ describe('viteTimingPlugin', () => {
   
   // Mock Date.now to return increasing values
   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
-
-  // Mock process.cwd() to return a consistent path
-  vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
   
   const testFile = path.join('/test-root', 'path/to/file.js');
   
@@ -105,9 +115,24 @@ describe('viteTimingPlugin', () => {
    expect(resolved).toBe(id);
 
    const content = plugin.load?.(id);
-   expect(content).toContain('createHotContext');
+   expect(content).toContain('import.meta.hot');
    expect(content).toContain('vite:afterUpdate');
  });
+
+ it('should resolve the importable client entry to the same module', () => {
+   expect((plugin as any).resolveId('virtual:vite-timing/client')).toBe('/@vite-timing/hmr');
+
+   (plugin as any).configResolved({ command: 'build', cacheDir, root: '/test-root', logger: { info: vi.fn(), warn: vi.fn() } });
+   expect((plugin as any).load('/@vite-timing/hmr')).toBe('export const markReady = () => {};');
+ });
+
+ it('should prefix the injected module with the base path', () => {
+   (plugin as any).configResolved({ command: 'serve', base: '/app/', cacheDir, root: '/test-root', logger: { info: vi.fn(), warn: vi.fn() } });
+
+   const result = (plugin as any).transformIndexHtml('<html><head></head><body></body></html>', { command: 'serve' });
+
+   expect(result).toContain('<script type="module" src="/app/@vite-timing/hmr"></script>');
+ });
  
  it('should handle middleware requests for timing data', async () => {
   plugin.configureServer?.(mockServer as ViteDevServer);
@@ -166,4 +191,970 @@ describe('viteTimingPlugin', () => {
   const changeMap = plugin._TEST_getChangeMap?.();
   expect(Array.from(changeMap!.values())).toHaveLength(0);
 });
-});
\ No newline at end of file
+});
+describe('viteTimingPlugin HMR phases', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+ let timeCounter: number;
+
+ beforeEach(() => {
+   timeCounter = 1000;
+   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should break HMR time down into server and client phases', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (plugin as any).configureServer(mockServer);
+
+   timeCounter = 1000;
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   timeCounter = 1020;
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/app.ts', modules: [] });
+   timeCounter = 1100;
+   mockServer.ws!.send({ type: 'update', updates: [] });
+
+   const req = new MockRequest('/__vite_timing_hmr_complete');
+   const res = new MockResponse();
+   const done = new Promise<void>((resolve) => {
+     res.end.mockImplementation(() => resolve());
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify({ file: '/src/app.ts', beforeUpdateTimestamp: 1150, clientTimestamp: 1400 }));
+   req.emit('end');
+   await done;
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload.timeTaken).toBe(400);
+   expect(payload.phases).toEqual({
+     changeToHotUpdate: 20,
+     hotUpdateToSend: 80,
+     sendToClient: 50,
+     clientApply: 250
+   });
+ });
+
+ it('should accept client timing over the HMR websocket', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (plugin as any).configureServer(mockServer);
+
+   timeCounter = 1000;
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   timeCounter = 1100;
+   mockServer.ws!.send({ type: 'update', updates: [] });
+
+   mockServer.simulateClientEvent('vite-timing:hmr-complete', {
+     file: '/src/app.ts',
+     clientTimestamp: 1300,
+     userAgent: 'Mozilla/5.0 Firefox/128.0'
+   });
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload.type).toBe('hmr');
+   expect(payload.timeTaken).toBe(300);
+   expect(payload.browserFamily).toBe('firefox');
+ });
+
+ it('should report page loads with their module waterfall', async () => {
+   const plugin = viteTimingPlugin();
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configureServer(mockServer);
+
+   mockServer.simulateClientEvent('vite-timing:page-load', {
+     page: '/checkout',
+     responseStart: 12.4,
+     domContentLoaded: 850.2,
+     loadEvent: 1210.7,
+     firstContentfulPaint: 930,
+     readyTime: null,
+     moduleRequestCount: 742,
+     moduleTransferTime: 15_320.6,
+     moduleWaterfallTime: 1180.3,
+     clientId: 'tab-1'
+   });
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     type: 'page-load',
+     page: '/checkout',
+     timeTaken: 1211,
+     responseStartTime: 12,
+     loadEventTime: 1211,
+     firstContentfulPaintTime: 930,
+     readyTime: null,
+     moduleRequestCount: 742,
+     moduleTransferTime: 15_321,
+     moduleWaterfallTime: 1180,
+     clientId: 'tab-1'
+   });
+ });
+
+ it('should export markReady from the client module', () => {
+   expect((viteTimingPlugin() as any).load('/@vite-timing/hmr')).toContain('export const markReady');
+ });
+
+ it('should match files outside a custom root by their /@fs/ update path', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.config as any).root = '/test-root/apps/web';
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/packages/ui/Button.tsx');
+   expect(plugin._TEST_getChangeMap?.().has('../../packages/ui/Button.tsx')).toBe(true);
+
+   const req = new MockRequest('/__vite_timing_hmr_complete');
+   const res = new MockResponse();
+   const done = new Promise<any>((resolve) => {
+     res.end.mockImplementation((data: string) => resolve(JSON.parse(data)));
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify({ file: '/@fs/test-root/packages/ui/Button.tsx', clientTimestamp: 1400 }));
+   req.emit('end');
+   expect((await done).success).toBe(true);
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     file: '../../packages/ui/Button.tsx',
+     viteRoot: '/test-root/apps/web',
+     workspaceRoot: '/test-root/apps/web'
+   });
+ });
+
+ it('should report vite:beforeUpdate from the client module', () => {
+   const content = (viteTimingPlugin() as any).load('/@vite-timing/hmr');
+   expect(content).toContain('vite:beforeUpdate');
+ });
+});
+
+describe('viteTimingPlugin multiple clients', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+
+ const postHmrComplete = (mockServer: Partial<ViteDevServer>, body: object, userAgent: string) => {
+   const req = new MockRequest('/__vite_timing_hmr_complete');
+   req.headers['user-agent'] = userAgent;
+   const res = new MockResponse();
+   const done = new Promise<any>((resolve) => {
+     res.end.mockImplementation((data: string) => resolve(JSON.parse(data)));
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify(body));
+   req.emit('end');
+   return done;
+ };
+
+ beforeEach(() => {
+   vi.useFakeTimers();
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.useRealTimers();
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should report one metric per connected client', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1', 'tab-2']);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/app.ts', modules: [] });
+   mockServer.ws!.send({ type: 'update', updates: [] });
+
+   const chrome = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+   const firefox = 'Mozilla/5.0 (X11; Linux x86_64; rv:120.0) Gecko/20100101 Firefox/120.0';
+
+   expect((await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: Date.now(), clientId: 'a' }, chrome)).success).toBe(true);
+   expect(plugin._TEST_getChangeMap?.().size).toBe(1);
+
+   expect((await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: Date.now(), clientId: 'a' }, chrome)).success).toBe(false);
+
+   expect((await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: Date.now(), clientId: 'b' }, firefox)).success).toBe(true);
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   await plugin._TEST_flushMetrics?.();
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads.map(payload => [payload.clientId, payload.browserFamily])).toEqual([
+     ['a', 'chrome'],
+     ['b', 'firefox']
+   ]);
+ });
+
+ it('should count an update once in the session, with the slowest client', async () => {
+   const plugin = viteTimingPlugin({ printSessionSummary: false });
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1', 'tab-2']);
+   (plugin as any).configureServer(mockServer);
+
+   const changedAt = Date.now();
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/app.ts', modules: [] });
+   mockServer.ws!.send({ type: 'update', updates: [] });
+   await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: changedAt + 500, clientId: 'a' }, '');
+   await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: changedAt + 600, clientId: 'b' }, '');
+   await (plugin as any).closeBundle();
+
+   const session = mockFetch.mock.calls.map(call => JSON.parse(call[1].body)).find(payload => payload.type === 'session');
+   expect(session).toMatchObject({ hmrCount: 1, hmrTotalTime: 600 });
+ });
+
+ it('should drop the entry when the remaining clients never report', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1', 'tab-2']);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/app.ts', modules: [] });
+   mockServer.ws!.send({ type: 'update', updates: [] });
+   await postHmrComplete(mockServer, { file: '/src/app.ts', clientTimestamp: Date.now(), clientId: 'a' }, '');
+
+   vi.advanceTimersByTime(10_000);
+
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+ });
+});
+
+describe('viteTimingPlugin errors', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+ let timeCounter: number;
+
+ const post = (mockServer: Partial<ViteDevServer>, url: string, body: object) => {
+   const req = new MockRequest(url);
+   const res = new MockResponse();
+   const done = new Promise<any>((resolve) => {
+     res.end.mockImplementation((data: string) => resolve(JSON.parse(data)));
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify(body));
+   req.emit('end');
+   return done;
+ };
+
+ beforeEach(() => {
+   timeCounter = 1000;
+   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should report transform failures and the time to recover from them', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   timeCounter = 1050;
+   const err = { message: 'Unexpected token (3:4)', id: '/test-root/src/app.ts?t=1', plugin: 'vite:esbuild' };
+   (mockServer.ws as any).send({ type: 'error', err });
+   expect((await post(mockServer, '/__vite_timing_hmr_error', { file: err.id, clientTimestamp: 1100 })).success).toBe(true);
+
+   timeCounter = 5000;
+   mockWatcher.emit('change', '/test-root/src/app.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/app.ts', modules: [] });
+   mockServer.ws!.send({ type: 'update', updates: [] });
+   await post(mockServer, '/__vite_timing_hmr_complete', { file: '/src/app.ts', clientTimestamp: 5100, clientId: 'a' });
+
+   await plugin._TEST_flushMetrics?.();
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads[0]).toMatchObject({
+     type: 'hmr-error',
+     file: 'src/app.ts',
+     plugin: 'vite:esbuild',
+     category: 'syntax',
+     timeTaken: 50
+   });
+   expect(payloads.find(payload => payload.type === 'hmr-recovery')).toMatchObject({
+     file: 'src/app.ts',
+     category: 'syntax',
+     errorCount: 1,
+     timeTaken: 4050,
+     overlayTime: 4000
+   });
+ });
+
+ it('should listen for vite:error in the client module', () => {
+   const content = (viteTimingPlugin() as any).load('/@vite-timing/hmr');
+   expect(content).toContain('vite:error');
+ });
+});
+
+describe('viteTimingPlugin orphaned changes', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+
+ beforeEach(() => {
+   vi.useFakeTimers();
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.useRealTimers();
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should evict changes that never produce an update and report why', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1']);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/README.md');
+   mockWatcher.emit('change', '/test-root/src/unused.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/unused.ts', modules: [] });
+
+   vi.advanceTimersByTime(29_999);
+   expect(plugin._TEST_getChangeMap?.().size).toBe(2);
+   vi.advanceTimersByTime(1);
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   await plugin._TEST_flushMetrics?.();
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads.map(payload => [payload.type, payload.file, payload.reason])).toEqual([
+     ['no-update', 'README.md', 'ignored-by-watcher'],
+     ['no-update', 'src/unused.ts', 'not-imported']
+   ]);
+   expect(payloads[0].timeTaken).toBe(30_000);
+ });
+
+ it('should match a report for the accepting importer to the edited file', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1']);
+   (plugin as any).configureServer(mockServer);
+
+   const changedAt = Date.now();
+   mockWatcher.emit('change', '/test-root/src/store.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/store.ts', timestamp: changedAt, modules: [] });
+   mockServer.ws!.send({
+     type: 'update',
+     updates: [{ type: 'js-update', path: '/src/App.tsx', acceptedPath: '/src/store.ts', timestamp: changedAt }]
+   });
+   mockServer.simulateClientEvent('vite-timing:hmr-complete', {
+     file: '/src/App.tsx',
+     clientTimestamp: changedAt + 400,
+     clientId: 'tab-1'
+   });
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   await plugin._TEST_flushMetrics?.();
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads.map(payload => [payload.type, payload.file, payload.timeTaken])).toEqual([
+     ['hmr', 'src/store.ts', 400]
+   ]);
+ });
+
+ it('should not report a change whose update was sent as no-update', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.ws as any).clients = new Set(['tab-1']);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/src/store.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/store.ts', timestamp: Date.now(), modules: [] });
+   mockServer.ws!.send({ type: 'update', updates: [] });
+
+   vi.advanceTimersByTime(30_000);
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   await plugin._TEST_flushMetrics?.();
+   expect(mockFetch).not.toHaveBeenCalled();
+ });
+});
+
+describe('viteTimingPlugin server environments', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+
+ beforeEach(() => {
+   vi.useFakeTimers({ now: 1000 });
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.useRealTimers();
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ const reportedPayloads = async (plugin: ReturnType<typeof viteTimingPlugin>) => {
+   await plugin._TEST_flushMetrics?.();
+   return mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+ };
+
+ it('should time SSR modules from the change until ssrLoadModule loads them again', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   (plugin as any).configureServer(createMockServer(mockWatcher));
+   (plugin as any).transform('', '/test-root/src/server/render.ts', { ssr: true });
+
+   mockWatcher.emit('change', '/test-root/src/server/render.ts');
+   vi.advanceTimersByTime(15);
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/server/render.ts', timestamp: 1015, modules: [] });
+   // Nothing waits for a browser to apply a server-only module
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   vi.advanceTimersByTime(485);
+   (plugin as any).transform('', '/test-root/src/server/render.ts?v=1', { ssr: true });
+
+   const payloads = await reportedPayloads(plugin);
+   expect(payloads).toHaveLength(1);
+   expect(payloads[0]).toMatchObject({
+     type: 'environment-hmr',
+     environment: 'ssr',
+     file: 'src/server/render.ts',
+     invalidationTime: 15,
+     timeTaken: 500
+   });
+ });
+
+ it('should charge a reload for a server-only module to that module', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (plugin as any).configureServer(mockServer);
+   (plugin as any).transform('', '/test-root/src/server/render.ts', { ssr: true });
+
+   mockWatcher.emit('change', '/test-root/src/unrelated.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/unrelated.ts', timestamp: 1000, modules: [] });
+   mockWatcher.emit('change', '/test-root/src/server/render.ts');
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/server/render.ts', timestamp: 1000, modules: [] });
+   mockServer.ws!.send({ type: 'full-reload', path: '*', triggeredBy: '/test-root/src/server/render.ts' });
+   expect(plugin._TEST_getChangeMap?.().has('src/unrelated.ts')).toBe(true);
+
+   vi.advanceTimersByTime(300);
+   mockServer.simulateClientEvent('vite-timing:page-ready', { clientTimestamp: Date.now() });
+
+   const payloads = await reportedPayloads(plugin);
+   expect(payloads.find(payload => payload.type === 'full-reload')).toMatchObject({
+     file: 'src/server/render.ts',
+     reason: 'no-hmr-boundary'
+   });
+ });
+
+ it('should tag updates with the Vite 6 environment they ran in', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   (plugin as any).configureServer({ ...createMockServer(mockWatcher), environments: {} });
+   const client = { environment: { name: 'client' } };
+   const worker = { environment: { name: 'edge' } };
+   (plugin as any).transform.call(client, '', '/test-root/src/shared.ts');
+   (plugin as any).transform.call(worker, '', '/test-root/src/shared.ts');
+
+   mockWatcher.emit('change', '/test-root/src/shared.ts');
+   (plugin as any).hotUpdate.call(client, { file: '/test-root/src/shared.ts', timestamp: 1000 });
+   (plugin as any).hotUpdate.call(worker, { file: '/test-root/src/shared.ts', timestamp: 1000 });
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/shared.ts', timestamp: 1000, modules: [] });
+   // The browser still reports on a module both sides load
+   expect(plugin._TEST_getChangeMap?.().has('src/shared.ts')).toBe(true);
+
+   vi.advanceTimersByTime(200);
+   (plugin as any).transform.call(worker, '', '/test-root/src/shared.ts');
+
+   const payloads = await reportedPayloads(plugin);
+   expect(payloads.map(payload => [payload.type, payload.environment, payload.timeTaken])).toEqual([
+     ['environment-hmr', 'edge', 200]
+   ]);
+ });
+});
+
+describe('viteTimingPlugin dashboard', () => {
+ const request = (mockServer: Partial<ViteDevServer>, url: string) => {
+   const req = new MockRequest(url, 'GET');
+   const res = new MockResponse();
+   const next = vi.fn();
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, next);
+   return { res, next };
+ };
+
+ it('should serve the dashboard page and its session API', () => {
+   const plugin = viteTimingPlugin();
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configureServer(mockServer);
+
+   const page = request(mockServer, '/__devfeedback');
+   expect(page.res.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'text/html; charset=utf-8' });
+   expect(page.res.end.mock.calls[0][0]).toContain('/__devfeedback/api/session');
+
+   const api = request(mockServer, '/__devfeedback/api/session');
+   const data = JSON.parse(api.res.end.mock.calls[0][0]);
+   expect(data.stats.hmr.count).toBe(0);
+   expect(data.events).toEqual([]);
+ });
+
+ it('should pass other requests through', () => {
+   const plugin = viteTimingPlugin();
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configureServer(mockServer);
+
+   expect(request(mockServer, '/src/main.ts').next).toHaveBeenCalled();
+ });
+});
+
+describe('viteTimingPlugin session summary', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+
+ beforeEach(() => {
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should print the summary and send a session metric once when the server closes', async () => {
+   const plugin = viteTimingPlugin();
+   const logger = { info: vi.fn(), warn: vi.fn() };
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configResolved({ command: 'serve', cacheDir, root: '/test-root', logger });
+   (plugin as any).configureServer(mockServer);
+
+   await (plugin as any).closeBundle();
+   await (plugin as any).closeBundle();
+
+   expect(logger.info).toHaveBeenCalledTimes(1);
+   expect(logger.info.mock.calls[0][0]).toContain('Session summary');
+
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads.filter(payload => payload.type === 'session')).toHaveLength(1);
+   expect(payloads[payloads.length - 1]).toMatchObject({ type: 'session', hmrCount: 0, timeTaken: 0 });
+ });
+
+ it('should not print the summary when disabled', async () => {
+   const plugin = viteTimingPlugin({ printSessionSummary: false });
+   const logger = { info: vi.fn(), warn: vi.fn() };
+   (plugin as any).configResolved({ command: 'serve', cacheDir, root: '/test-root', logger });
+
+   await (plugin as any).closeBundle();
+
+   expect(logger.info).not.toHaveBeenCalled();
+ });
+});
+
+describe('viteTimingPlugin privacy', () => {
+ afterEach(() => {
+   vi.restoreAllMocks();
+ });
+
+ it('should not hook into Vite at all when disabled', () => {
+   const plugin = viteTimingPlugin({ disabled: true });
+
+   expect(plugin.configureServer).toBeUndefined();
+   expect(plugin.transformIndexHtml).toBeUndefined();
+ });
+
+ it('should still serve a stub for the client entry when disabled', () => {
+   const plugin = viteTimingPlugin({ disabled: true }) as any;
+
+   expect(plugin.resolveId('virtual:vite-timing/client')).toBe('/@vite-timing/hmr');
+   expect(plugin.load('/@vite-timing/hmr')).toBe('export const markReady = () => {};');
+   expect(plugin.resolveId('/src/main.ts')).toBeUndefined();
+ });
+
+ it('should redact payloads before reporters see them', async () => {
+   const received: MetricsPayload[] = [];
+   const plugin = viteTimingPlugin({
+     reporters: [callbackReporter(payload => { received.push(payload); })],
+     printSessionSummary: false,
+     privacy: { hashIdentifiers: true, hashSalt: 'team', denyFields: ['repository'] }
+   });
+   (plugin as any).configResolved({ command: 'serve', cacheDir, root: '/test-root', logger: { info: vi.fn(), warn: vi.fn() } });
+
+   await (plugin as any).closeBundle();
+
+   expect(received).toHaveLength(1);
+   expect(received[0].userName).toMatch(/^[0-9a-f]{64}$/);
+   expect(received[0]).not.toHaveProperty('repository');
+ });
+});
+
+describe('viteTimingPlugin schema validation', () => {
+ it('should log invalid payloads instead of reporting them', async () => {
+   const received: MetricsPayload[] = [];
+   const logger = { info: vi.fn(), warn: vi.fn() };
+   const plugin = viteTimingPlugin({
+     reporters: [callbackReporter(payload => { received.push(payload); })],
+     printSessionSummary: false,
+     metadataProviders: [() => ({ cpuCount: 'many' })]
+   });
+   await (plugin as any).configResolved({ command: 'serve', cacheDir, root: '/test-root', logger });
+
+   await (plugin as any).closeBundle();
+
+   expect(received).toHaveLength(0);
+   expect(logger.warn).toHaveBeenCalledWith('[vite-timing] Dropped invalid session metric: cpuCount must be number');
+ });
+});
+
+describe('viteTimingPlugin full reloads', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+ let timeCounter: number;
+
+ const postPageReady = (mockServer: Partial<ViteDevServer>, clientTimestamp: number) => {
+   const req = new MockRequest('/__vite_timing_page_ready');
+   const res = new MockResponse();
+   const done = new Promise<void>((resolve) => {
+     res.end.mockImplementation(() => resolve());
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify({ clientTimestamp }));
+   req.emit('end');
+   return done;
+ };
+
+ beforeEach(() => {
+   timeCounter = 1000;
+   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
+   vi.spyOn(process, 'cwd').mockReturnValue('/test-root');
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should report a full reload when a change has no HMR boundary', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/src/main.ts');
+   timeCounter = 1030;
+   (plugin as any).handleHotUpdate({ file: '/test-root/src/main.ts', modules: [] });
+   timeCounter = 1100;
+   mockServer.ws!.send({ type: 'full-reload', triggeredBy: '/test-root/src/main.ts' });
+
+   expect(plugin._TEST_getChangeMap?.().size).toBe(0);
+
+   await postPageReady(mockServer, 1900);
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     type: 'full-reload',
+     file: 'src/main.ts',
+     reason: 'no-hmr-boundary',
+     timeTaken: 900,
+     reloadSentTime: 100
+   });
+ });
+
+ it('should report untargeted reloads without a known reason', async () => {
+   const plugin = viteTimingPlugin();
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configureServer(mockServer);
+
+   mockServer.ws!.send({ type: 'full-reload', path: '*' });
+   await postPageReady(mockServer, 1500);
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({ type: 'full-reload', file: null, reason: 'unknown' });
+ });
+
+ it('should report optimizer runs and tie their reload to the edit that caused them', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   const observer = (plugin as any).config({}, { command: 'serve' }).optimizeDeps.esbuildOptions.plugins[0];
+   (plugin as any).configureServer(mockServer);
+
+   const runOptimizer = (entryPoints: string[], duration: number) => {
+     const build = { initialOptions: { metafile: true, entryPoints }, onStart: vi.fn(), onEnd: vi.fn() };
+     observer.setup(build);
+     build.onStart.mock.calls[0][0]();
+     timeCounter += duration;
+     build.onEnd.mock.calls[0][0]({ errors: [] });
+   };
+
+   runOptimizer(['react'], 400);
+   timeCounter = 5000;
+   mockWatcher.emit('change', '/test-root/src/chart.ts');
+   timeCounter = 5100;
+   runOptimizer(['react', 'chart__js'], 300);
+   mockServer.ws!.send({ type: 'full-reload', path: '*' });
+   await postPageReady(mockServer, 6000);
+
+   await plugin._TEST_flushMetrics?.();
+   const payloads = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+   expect(payloads).toEqual([
+     expect.objectContaining({ type: 'deps-optimization', kind: 'initial', timeTaken: 400, forcedReload: false, file: null }),
+     expect.objectContaining({
+       type: 'deps-optimization',
+       kind: 're-optimization',
+       timeTaken: 300,
+       dependencyCount: 2,
+       newDependencies: ['chart__js'],
+       forcedReload: true,
+       file: 'src/chart.ts'
+     }),
+     expect.objectContaining({ type: 'full-reload', file: 'src/chart.ts', reason: 'dep-optimization', timeTaken: 1000 })
+   ]);
+ });
+
+ it('should record config changes as reloads', async () => {
+   const plugin = viteTimingPlugin();
+   const mockWatcher = new EventEmitter();
+   const mockServer = createMockServer(mockWatcher);
+   (mockServer.config as any).configFile = '/test-root/vite.config.ts';
+   (plugin as any).configureServer(mockServer);
+
+   mockWatcher.emit('change', '/test-root/vite.config.ts');
+   await postPageReady(mockServer, 3000);
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     type: 'full-reload',
+     file: 'vite.config.ts',
+     reason: 'config-change',
+     timeTaken: 2000,
+     reloadSentTime: null
+   });
+ });
+});
+
+describe('viteTimingPlugin build metrics', () => {
+ let plugin: ReturnType<typeof viteTimingPlugin>;
+ let mockFetch: ReturnType<typeof vi.fn>;
+ let timeCounter: number;
+
+ const pluginContext = {
+   getModuleIds: () => ['src/main.ts', 'src/app.ts', 'src/util.ts'][Symbol.iterator]()
+ };
+
+ const callHook = (name: string, ...args: any[]) =>
+   (plugin as any)[name].call(pluginContext, ...args);
+
+ beforeEach(() => {
+   timeCounter = 1000;
+   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+   plugin = viteTimingPlugin({ endpoint: 'http://test-endpoint' });
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should report a successful build from buildStart to closeBundle', async () => {
+   callHook('configResolved', { command: 'build', cacheDir: cacheDir });
+   callHook('buildStart', {});
+   callHook('buildEnd');
+   const bundle: Record<string, any> = {
+     'index.js': { type: 'chunk', fileName: 'index.js', code: 'import "./vendor.js";', isEntry: true, facadeModuleId: '/app/index.html', imports: ['vendor.js'] },
+     'vendor.js': { type: 'chunk', fileName: 'vendor.js', code: 'export {};', isEntry: false, imports: [] },
+     'style.css': { type: 'asset', fileName: 'style.css' }
+   };
+   callHook('generateBundle', {}, bundle);
+   // Emitted by a later plugin, e.g. Vite's HTML plugin
+   bundle['index.html'] = { type: 'asset', fileName: 'index.html' };
+   callHook('writeBundle', {}, bundle);
+   timeCounter = 4000;
+   await callHook('closeBundle');
+
+   expect(mockFetch).toHaveBeenCalledTimes(1);
+   expect(mockFetch).toHaveBeenCalledTimes(1);
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     type: 'vite',
+     timeTaken: 3000,
+     buildStatus: 'success',
+     moduleCount: 3,
+     chunkCount: 2,
+     assetCount: 2
+   });
+   expect(typeof payload.viteVersion).toBe('string');
+   expect(payload.bundleStats.bootstrapChunkSizeBytes).toBe(31);
+ });
+
+ it('should attach the slowest plugins when profiling', async () => {
+   plugin = viteTimingPlugin({ endpoint: 'http://test-endpoint', profilePlugins: true });
+   const slow: Plugin = { name: 'slow-plugin', transform: (code: string) => code };
+   callHook('configResolved', { command: 'build', cacheDir: cacheDir, root: '/app', plugins: [slow, plugin] });
+   callHook('buildStart', {});
+   (slow.transform as any).call({}, 'code', '/app/src/main.ts');
+   await callHook('closeBundle');
+
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload.slowestPlugins).toEqual([
+     expect.objectContaining({ plugin: 'slow-plugin', calls: 1, slowestFile: 'src/main.ts' })
+   ]);
+ });
+
+ it('should warn or fail when the bootstrap chunk budget is exceeded', () => {
+   const bundle = {
+     'index.js': { type: 'chunk', fileName: 'index.js', code: 'x'.repeat(200), isEntry: true, facadeModuleId: '/app/index.html', imports: [] }
+   };
+   const context = { ...pluginContext, warn: vi.fn(), error: vi.fn() };
+
+   plugin = viteTimingPlugin({ bootstrapChunkSizeLimitBytes: 100 });
+   (plugin as any).configResolved({ command: 'build', cacheDir: cacheDir });
+   (plugin as any).buildStart.call(context, {});
+   (plugin as any).generateBundle.call(context, {}, bundle);
+   expect(context.warn).toHaveBeenCalledWith(expect.stringContaining('exceeding the limit of 100 bytes'));
+
+   plugin = viteTimingPlugin({ bootstrapChunkSizeLimitBytes: 100, bootstrapChunkSizeLimitAction: 'error' });
+   (plugin as any).configResolved({ command: 'build', cacheDir: cacheDir });
+   (plugin as any).buildStart.call(context, {});
+   (plugin as any).generateBundle.call(context, {}, bundle);
+   expect(context.error).toHaveBeenCalled();
+ });
+
+ it('should check the bootstrap budget per output bundle', async () => {
+   const output = (fileName: string) => ({
+     [fileName]: { type: 'chunk', fileName, code: 'x'.repeat(80), isEntry: true, facadeModuleId: '/lib/src/index.ts', imports: [] }
+   });
+   const context = { ...pluginContext, warn: vi.fn(), error: vi.fn() };
+
+   plugin = viteTimingPlugin({ endpoint: 'http://test-endpoint', bootstrapChunkSizeLimitBytes: 100, bootstrapChunkSizeLimitAction: 'error' });
+   (plugin as any).configResolved({ command: 'build', cacheDir: cacheDir });
+   (plugin as any).buildStart.call(context, {});
+   (plugin as any).generateBundle.call(context, { format: 'es' }, output('index.js'));
+   (plugin as any).generateBundle.call(context, { format: 'cjs' }, output('index.cjs'));
+   await (plugin as any).closeBundle.call(context);
+
+   expect(context.error).not.toHaveBeenCalled();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload.bundleStats).toMatchObject({ bootstrapChunkSizeBytes: 80, totalChunkSizeBytes: 160 });
+ });
+
+ it('should report failed builds with the error class', async () => {
+   class CompileError extends Error {
+     code = 'PARSE_ERROR';
+   }
+
+   callHook('configResolved', { command: 'build', cacheDir: cacheDir });
+   callHook('buildStart', {});
+   callHook('buildEnd', new CompileError('Unexpected token'));
+   await callHook('closeBundle');
+
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     buildStatus: 'failure',
+     errorClass: 'CompileError',
+     errorCode: 'PARSE_ERROR'
+   });
+ });
+
+ it('should not report builds while serving', async () => {
+   callHook('configResolved', { command: 'serve', cacheDir: cacheDir });
+   callHook('buildStart', {});
+   callHook('buildEnd');
+   await callHook('closeBundle');
+
+   const types = mockFetch.mock.calls.map(call => JSON.parse(call[1].body).type);
+   expect(types).not.toContain('vite');
+ });
+});
+
+describe('viteTimingPlugin start-up metrics', () => {
+ let mockFetch: ReturnType<typeof vi.fn>;
+ let timeCounter: number;
+
+ const postPageReady = (mockServer: Partial<ViteDevServer>, clientTimestamp: number) => {
+   const req = new MockRequest('/__vite_timing_page_ready');
+   const res = new MockResponse();
+   const done = new Promise<void>((resolve) => {
+     res.end.mockImplementation(() => resolve());
+   });
+   const middlewareHandler = (mockServer.middlewares?.use as jest.Mock).mock.calls[0][0];
+   middlewareHandler(req, res, vi.fn());
+   req.emit('data', JSON.stringify({ clientTimestamp }));
+   req.emit('end');
+   return done.then(() => JSON.parse(res.end.mock.calls[0][0]));
+ };
+
+ beforeEach(() => {
+   _TEST_resetStartupState();
+   timeCounter = 10000;
+   vi.spyOn(Date, 'now').mockImplementation(() => timeCounter);
+   vi.spyOn(process, 'uptime').mockReturnValue(2);
+   mockFetch = vi.fn().mockResolvedValue({ ok: true });
+   vi.stubGlobal('fetch', mockFetch);
+ });
+
+ afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.restoreAllMocks();
+ });
+
+ it('should report start-up phases once the first page is ready', async () => {
+   const plugin = viteTimingPlugin();
+   const mockServer = createMockServer(new EventEmitter());
+   (plugin as any).configResolved({ command: 'serve', cacheDir: cacheDir });
+
+   timeCounter = 10500;
+   (plugin as any).configureServer(mockServer);
+   timeCounter = 11000;
+   (plugin as any).transformIndexHtml('<html><head></head></html>', { command: 'serve' });
+
+   const response = await postPageReady(mockServer, 12000);
+   expect(response.success).toBe(true);
+
+   await plugin._TEST_flushMetrics?.();
+   const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+   expect(payload).toMatchObject({
+     type: 'dev-server-startup',
+     timeTaken: 4000,
+     isColdStart: true,
+     isRestart: false,
+     configureServerTime: 2500,
+     serverListeningTime: null,
+     firstHtmlServedTime: 3000
+   });
+
+   const second = await postPageReady(mockServer, 13000);
+   expect(second.success).toBe(false);
+   expect(mockFetch).toHaveBeenCalledTimes(1);
+ });
+});
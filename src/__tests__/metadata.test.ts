@@ -1,11 +1,12 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
-import { getStaticMetadata, getCommonMetadata, runGitCommand } from '../utils/metadata';
+import { getStaticMetadata, getCommonMetadata, resolveMetadataProviders, runGitCommand } from '../utils/metadata';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import os from 'os';
 import { spawnSync } from 'child_process';
 
 vi.mock('child_process', () => ({
-  spawnSync: vi.fn()
+  spawnSync: vi.fn(),
+  execFile: vi.fn()
 }));
 
 vi.mock('os', async () => {
@@ -72,7 +73,7 @@ describe('Metadata Utils', () => {
       const secondCall = getStaticMetadata();
 
       expect(firstCall).toBe(secondCall);
-      expect(spawnSync).toHaveBeenCalledTimes(2); // Only called for first metadata collection
+      expect(spawnSync).toHaveBeenCalledTimes(1); // Only called for first metadata collection
     });
 
     it('should collect correct system information', () => {
@@ -111,6 +112,29 @@ describe('Metadata Utils', () => {
       expect(metadata.customIdentifier).toBe('dev');
     });
 
+    it('should drop system metrics when includeSystemMetrics is false', () => {
+      const metadata = getCommonMetadata(1000, 'dev', { includeSystemMetrics: false });
+
+      expect(metadata).not.toHaveProperty('cpuModels');
+      expect(metadata).not.toHaveProperty('cpuSpeed');
+      expect(metadata).not.toHaveProperty('totalMemory');
+      expect(metadata.cpuCount).toBe(2);
+    });
+
+    it('should merge custom tags into the metadata', () => {
+      const metadata = getCommonMetadata(1000, 'dev', { tags: { team: 'web' } });
+
+      expect(metadata.tags).toEqual({ team: 'web' });
+    });
+
+    it('should merge provided metadata without overriding per-event fields', () => {
+      const metadata = getCommonMetadata(1000, 'dev', {
+        providedMetadata: { team: 'checkout', timeTaken: 5 }
+      });
+
+      expect(metadata).toMatchObject({ team: 'checkout', timeTaken: 1000 });
+    });
+
     it('should use unknown value when no identifier available', () => {
       // Ensure both env variables are undefined
       const oldLifecycle = process.env.npm_lifecycle_event;
@@ -123,4 +147,18 @@ describe('Metadata Utils', () => {
       process.env.npm_lifecycle_event = oldLifecycle;
     });
   });
-});
\ No newline at end of file
+
+  describe('resolveMetadataProviders', () => {
+    it('should merge sync and async providers and skip failing ones', async () => {
+      const onError = vi.fn();
+      const metadata = await resolveMetadataProviders([
+        () => ({ team: 'checkout' }),
+        async () => ({ region: 'eu' }),
+        () => { throw new Error('No access'); }
+      ], onError);
+
+      expect(metadata).toEqual({ team: 'checkout', region: 'eu' });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'No access' }));
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMetricsQueue, getRetryDelay, getSpoolFile, readSpool, writeSpool } from '../utils/metrics-queue';
+import type { MetricsData } from '../types';
+
+const event = (id: string) => ({ id, type: 'hmr', file: `${id}.ts` }) as MetricsData;
+
+const queueOptions = {
+  endpoint: 'http://test-endpoint',
+  flushIntervalMs: 1000,
+  maxBatchSize: 2,
+  maxRetries: 1
+};
+
+describe('Metrics Queue', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockFetch = vi.fn().mockResolvedValue({ ok: true });
+    vi.stubGlobal('fetch', mockFetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const sentIds = () => mockFetch.mock.calls.map((call) => JSON.parse(call[1].body).id);
+
+  it('should not send anything until the flush interval elapses', async () => {
+    const queue = createMetricsQueue(queueOptions);
+    queue.enqueue(event('a'));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sentIds()).toEqual(['a']);
+  });
+
+  it('should deliver at most one batch per flush', async () => {
+    const queue = createMetricsQueue(queueOptions);
+    ['a', 'b', 'c'].forEach((id) => queue.enqueue(event(id)));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sentIds()).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sentIds()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should retry failed events with backoff and spool them after the last retry', async () => {
+    const spoolFile = getSpoolFile(cacheDir);
+    const queue = createMetricsQueue(queueOptions);
+    queue.attachSpool(spoolFile);
+    mockFetch.mockRejectedValue(new Error('offline'));
+
+    queue.enqueue(event('a'));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(readSpool(spoolFile)).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(getRetryDelay(1));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(readSpool(spoolFile).map((payload) => payload.id)).toEqual(['a']);
+  });
+
+  it('should spool what cannot be delivered when drained', async () => {
+    const spoolFile = getSpoolFile(cacheDir);
+    const queue = createMetricsQueue(queueOptions);
+    queue.attachSpool(spoolFile);
+    mockFetch.mockRejectedValue(new Error('offline'));
+
+    queue.enqueue(event('a'));
+    queue.enqueue(event('b'));
+    await queue.drain();
+
+    expect(readSpool(spoolFile).map((payload) => payload.id)).toEqual(['a', 'b']);
+  });
+
+  it('should stop waiting for an endpoint that hangs when drained', async () => {
+    const spoolFile = getSpoolFile(cacheDir);
+    const queue = createMetricsQueue(queueOptions);
+    queue.attachSpool(spoolFile);
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          const abort = () => reject(new Error('aborted'));
+          if (init.signal?.aborted) abort();
+          init.signal?.addEventListener('abort', abort);
+        })
+    );
+
+    queue.enqueue(event('a'));
+    await vi.advanceTimersByTimeAsync(1000);
+    queue.enqueue(event('b'));
+    const drained = queue.drain();
+    await vi.advanceTimersByTimeAsync(3000);
+    await drained;
+
+    expect(readSpool(spoolFile).map((payload) => payload.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should replay spooled events from a previous session', async () => {
+    const spoolFile = getSpoolFile(cacheDir);
+    writeSpool(spoolFile, [event('old')]);
+
+    const queue = createMetricsQueue(queueOptions);
+    queue.attachSpool(spoolFile);
+    await queue.drain();
+
+    expect(sentIds()).toEqual(['old']);
+    expect(fs.existsSync(spoolFile)).toBe(false);
+  });
+
+  it('should skip corrupt lines in the spool file', () => {
+    const spoolFile = getSpoolFile(cacheDir);
+    fs.mkdirSync(path.dirname(spoolFile), { recursive: true });
+    fs.writeFileSync(spoolFile, `${JSON.stringify(event('a'))}\n{"id":"b"`);
+
+    expect(readSpool(spoolFile).map((payload) => payload.id)).toEqual(['a']);
+  });
+});
@@ -1,6 +1,6 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
-import { sendMetrics, getEndpoint } from '../utils/metrics';
-import type { MetricsData } from '../types';
+import { postMetrics, getEndpoint } from '../utils/metrics';
+import type { MetricsData, MetricsPayload } from '../types';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -24,9 +24,15 @@ describe('Metrics Utils', () => {
       const endpoint = getEndpoint();
       expect(endpoint).toBe('http://custom-endpoint');
     });
+
+    it('should prefer the endpoint option over the env variable', () => {
+      process.env.VITE_ENDPOINT = 'http://custom-endpoint';
+      const endpoint = getEndpoint({ endpoint: 'http://option-endpoint' });
+      expect(endpoint).toBe('http://option-endpoint');
+    });
   });
 
-  describe('sendMetrics', () => {
+  describe('postMetrics', () => {
     const mockMetricsData: MetricsData = {
       id: 'test-id',
       type: 'hmr',
@@ -48,7 +54,7 @@ describe('Metrics Utils', () => {
     });
 
     it('should send metrics to the endpoint', async () => {
-      await sendMetrics(mockMetricsData);
+      await postMetrics(mockMetricsData as unknown as MetricsPayload, 'http://compilation-metrics/vite');
       
       // Verify the fetch call
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -64,28 +70,20 @@ describe('Metrics Utils', () => {
       );
     });
 
-    it('should handle HTTP error responses', async () => {
-      const consoleSpy = vi.spyOn(console, 'error');
+    it('should reject on HTTP error responses', async () => {
       mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
       
-      await sendMetrics(mockMetricsData);
-      
-      expect(consoleSpy).toHaveBeenCalledWith(
-        '[vite-timing] Error sending metrics:',
-        expect.any(Error)
+      await expect(postMetrics(mockMetricsData as unknown as MetricsPayload, 'http://option-endpoint')).rejects.toThrow(
+        'HTTP error! status: 500'
       );
     });
 
-    it('should handle network errors', async () => {
-      const consoleSpy = vi.spyOn(console, 'error');
+    it('should reject on network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
       
-      await sendMetrics(mockMetricsData);
-      
-      expect(consoleSpy).toHaveBeenCalledWith(
-        '[vite-timing] Error sending metrics:',
-        expect.any(Error)
+      await expect(postMetrics(mockMetricsData as unknown as MetricsPayload, 'http://option-endpoint')).rejects.toThrow(
+        'Network error'
       );
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getHmrBlastRadius, type GraphModule } from '../utils/module-graph';
+
+const createModule = (isSelfAccepting = false): GraphModule => ({
+  isSelfAccepting,
+  importers: new Set(),
+  acceptedHmrDeps: new Set()
+});
+
+const imports = (importer: GraphModule, imported: GraphModule) => {
+  imported.importers.add(importer);
+};
+
+describe('Module Graph Utils', () => {
+  describe('getHmrBlastRadius', () => {
+    it('should stop at a self-accepting module', () => {
+      const component = createModule(true);
+
+      expect(getHmrBlastRadius([component])).toEqual({
+        moduleCount: 1,
+        hmrBoundaryCount: 1,
+        importerChainDepth: 0
+      });
+    });
+
+    it('should walk importers up to the accepting boundaries', () => {
+      // store <- barrel <- (pageA, pageB) where both pages accept themselves
+      const store = createModule();
+      const barrel = createModule();
+      const pageA = createModule(true);
+      const pageB = createModule(true);
+      imports(barrel, store);
+      imports(pageA, barrel);
+      imports(pageB, barrel);
+
+      expect(getHmrBlastRadius([store])).toEqual({
+        moduleCount: 4,
+        hmrBoundaryCount: 2,
+        importerChainDepth: 2
+      });
+    });
+
+    it('should count an importer that accepts the dependency as a boundary', () => {
+      const util = createModule();
+      const app = createModule();
+      imports(app, util);
+      app.acceptedHmrDeps.add(util);
+
+      expect(getHmrBlastRadius([util])).toEqual({
+        moduleCount: 2,
+        hmrBoundaryCount: 1,
+        importerChainDepth: 1
+      });
+    });
+
+    it('should not loop on circular imports', () => {
+      const a = createModule();
+      const b = createModule();
+      imports(a, b);
+      imports(b, a);
+
+      expect(getHmrBlastRadius([a])).toMatchObject({ moduleCount: 2, hmrBoundaryCount: 0 });
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getNoUpdateReason, takeExpiredEntries } from '../utils/no-update';
+import type { TimingEntry } from '../types';
+
+describe('No Update Utils', () => {
+  describe('getNoUpdateReason', () => {
+    it('should explain why a change never produced an update', () => {
+      expect(getNoUpdateReason({ file: 'a.ts', changeDetectedAt: 0 }, 1)).toBe('ignored-by-watcher');
+      expect(getNoUpdateReason({ file: 'a.ts', changeDetectedAt: 0, hotUpdateAt: 5, moduleCount: 0 }, 1)).toBe('not-imported');
+      expect(getNoUpdateReason({ file: 'a.ts', changeDetectedAt: 0, hotUpdateAt: 5, moduleCount: 2 }, 0)).toBe('no-connected-client');
+      expect(getNoUpdateReason({ file: 'a.ts', changeDetectedAt: 0, hotUpdateAt: 5, moduleCount: 2 }, 1)).toBe('unknown');
+    });
+  });
+
+  describe('takeExpiredEntries', () => {
+    it('should evict expired entries and return those no client reported', () => {
+      const changeMap = new Map<string, TimingEntry>([
+        ['old.ts', { file: 'old.ts', changeDetectedAt: 1000 }],
+        ['partly-reported.ts', { file: 'partly-reported.ts', changeDetectedAt: 1000, reportedClientIds: new Set(['a']) }],
+        ['sent.ts', { file: 'sent.ts', changeDetectedAt: 1000, hotUpdateAt: 1010, updateSentAt: 1020 }],
+        ['fresh.ts', { file: 'fresh.ts', changeDetectedAt: 20_000 }]
+      ]);
+
+      const expired = takeExpiredEntries(changeMap, 31_000, 30_000);
+
+      expect(expired.map((entry) => entry.file)).toEqual(['old.ts']);
+      expect(Array.from(changeMap.keys())).toEqual(['fresh.ts']);
+    });
+  });
+});
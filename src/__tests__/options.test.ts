@@ -0,0 +1,54 @@
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import { resolveOptions, shouldSample } from '../utils/options';
+
+describe('Options Utils', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('resolveOptions', () => {
+    it('should apply defaults when no options are given', () => {
+      expect(resolveOptions()).toMatchObject({
+        endpoint: undefined,
+        sampleRate: 1,
+        includeSystemMetrics: true,
+        tags: {},
+        bootstrapChunkSizeLimitAction: 'warn',
+        profilePlugins: false
+      });
+    });
+
+    it('should clamp the sample rate to the 0..1 range', () => {
+      expect(resolveOptions({ sampleRate: 2 }).sampleRate).toBe(1);
+      expect(resolveOptions({ sampleRate: -1 }).sampleRate).toBe(0);
+      expect(resolveOptions({ sampleRate: 0.25 }).sampleRate).toBe(0.25);
+    });
+  });
+
+  describe('disabled', () => {
+    it('should be disabled by the config flag or the environment variable', () => {
+      expect(resolveOptions().disabled).toBe(false);
+      expect(resolveOptions({ disabled: true }).disabled).toBe(true);
+
+      vi.stubEnv('DEVFEEDBACK_DISABLED', '1');
+      expect(resolveOptions({ disabled: false }).disabled).toBe(true);
+
+      vi.stubEnv('DEVFEEDBACK_DISABLED', 'false');
+      expect(resolveOptions().disabled).toBe(false);
+    });
+  });
+
+  describe('shouldSample', () => {
+    it('should always sample at rate 1 and never at rate 0', () => {
+      expect(shouldSample(1)).toBe(true);
+      expect(shouldSample(0)).toBe(false);
+    });
+
+    it('should compare against a random draw for partial rates', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.3);
+      expect(shouldSample(0.5)).toBe(true);
+      expect(shouldSample(0.2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createPackageResolver, findWorkspaceRoot, getFileAttribution } from '../utils/packages';
+
+describe('Package Utils', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-packages-'));
+    write('package.json', JSON.stringify({ name: 'monorepo', private: true, workspaces: ['apps/*', 'packages/*'] }));
+    write('apps/web/package.json', JSON.stringify({ name: '@acme/web', version: '1.0.0' }));
+    write('packages/ui/package.json', JSON.stringify({ name: '@acme/ui', version: '2.3.0' }));
+    write('apps/web/node_modules/react/package.json', JSON.stringify({ name: 'react', version: '18.2.0' }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('findWorkspaceRoot', () => {
+    it('should find the package.json declaring workspaces', () => {
+      expect(findWorkspaceRoot(path.join(root, 'apps/web'))).toBe(root);
+    });
+
+    it('should recognize pnpm workspaces', () => {
+      write('package.json', JSON.stringify({ name: 'monorepo' }));
+      write('pnpm-workspace.yaml', 'packages:\n  - apps/*\n');
+
+      expect(findWorkspaceRoot(path.join(root, 'apps/web'))).toBe(root);
+    });
+  });
+
+  describe('getFileAttribution', () => {
+    const attribute = (file: string) =>
+      getFileAttribution(path.join(root, file), path.join(root, 'apps/web'), root, createPackageResolver());
+
+    it('should attribute app files to the app package', () => {
+      expect(attribute('apps/web/src/pages/Home.tsx')).toEqual({
+        viteRoot: path.join(root, 'apps/web'),
+        workspaceRoot: root,
+        packageName: '@acme/web',
+        packageVersion: '1.0.0',
+        fileOrigin: 'project'
+      });
+    });
+
+    it('should flag linked workspace packages and node_modules', () => {
+      expect(attribute('packages/ui/src/Button.tsx')).toMatchObject({
+        packageName: '@acme/ui',
+        packageVersion: '2.3.0',
+        fileOrigin: 'workspace-package'
+      });
+      expect(attribute('apps/web/node_modules/react/index.js')).toMatchObject({
+        packageName: 'react',
+        fileOrigin: 'node_modules'
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { performance } from 'perf_hooks';
+import type { Plugin } from 'vite';
+import { createPluginProfiler } from '../utils/plugin-profiler';
+
+describe('Plugin Profiler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const mockClock = (steps: number[]) => {
+    const now = vi.spyOn(performance, 'now');
+    steps.forEach((step) => now.mockReturnValueOnce(step));
+  };
+
+  it('should time sync, async and object-form hooks per plugin', async () => {
+    const profiler = createPluginProfiler((id) => id.replace('/root/', ''));
+    const transform = vi.fn((code: string) => `${code};`);
+    const plugins: Plugin[] = [
+      { name: 'sync', transform },
+      { name: 'async', load: { order: 'pre', handler: async () => 'export {}' } },
+      { name: 'self', transform: () => null },
+    ];
+    profiler.wrapPlugins(plugins, 'self');
+
+    mockClock([0, 5, 10, 40]);
+    expect((plugins[0].transform as any).call({}, 'code', '/root/src/a.ts')).toBe('code;');
+    await expect((plugins[1].load as any).handler.call({}, '/root/src/b.ts')).resolves.toBe('export {}');
+
+    expect(transform).toHaveBeenCalledWith('code', '/root/src/a.ts');
+    expect((plugins[1].load as any).order).toBe('pre');
+    expect(profiler.getTimings()).toEqual([
+      { plugin: 'async', totalTime: 30, resolveIdTime: 0, loadTime: 30, transformTime: 0, calls: 1, slowestFile: 'src/b.ts' },
+      { plugin: 'sync', totalTime: 5, resolveIdTime: 0, loadTime: 0, transformTime: 5, calls: 1, slowestFile: 'src/a.ts' },
+    ]);
+  });
+
+  it('should still time hooks that throw', () => {
+    const profiler = createPluginProfiler((id) => id);
+    const plugins: Plugin[] = [{ name: 'broken', resolveId: () => { throw new Error('boom'); } }];
+    profiler.wrapPlugins(plugins, 'self');
+    profiler.wrapPlugins(plugins, 'self');
+
+    mockClock([0, 12]);
+    expect(() => (plugins[0].resolveId as any).call({}, './x', 'src/main.ts')).toThrow('boom');
+
+    expect(profiler.getTimings()).toMatchObject([{ plugin: 'broken', resolveIdTime: 12, calls: 1, slowestFile: 'src/main.ts' }]);
+  });
+
+  it('should only count calls started within a window', () => {
+    const profiler = createPluginProfiler((id) => id);
+    const call = { plugin: 'vite:esbuild', hook: 'transform' as const, file: 'src/a.ts', duration: 20 };
+    profiler.record({ ...call, startedAt: 1000 });
+    profiler.record({ ...call, startedAt: 2000 });
+    profiler.record({ ...call, startedAt: 3000 });
+
+    expect(profiler.getTimings({ from: 1500, to: 2500 })).toMatchObject([{ plugin: 'vite:esbuild', totalTime: 20, calls: 1 }]);
+    expect(profiler.getTimings()).toMatchObject([{ totalTime: 60, calls: 3 }]);
+
+    profiler.reset();
+    expect(profiler.getTimings()).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createRedactor, hashValue } from '../utils/privacy';
+import type { MetricsPayload } from '../types';
+
+const hmrPayload = {
+  type: 'hmr',
+  file: 'src/app.ts',
+  viteRoot: '/home/jdoe/app',
+  userName: 'jdoe',
+  hostname: 'jdoe-laptop',
+  repository: 'git@github.com:acme/app.git',
+  timeTaken: 120,
+} as MetricsPayload;
+
+describe('Privacy Utils', () => {
+  describe('hashValue', () => {
+    it('should hash deterministically per salt', () => {
+      expect(hashValue('jdoe', 'salt')).toBe(hashValue('jdoe', 'salt'));
+      expect(hashValue('jdoe', 'salt')).not.toBe(hashValue('jdoe', 'pepper'));
+      expect(hashValue('jdoe', 'salt')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('createRedactor', () => {
+    it('should pass payloads through unchanged by default', () => {
+      expect(createRedactor()(hmrPayload)).toEqual(hmrPayload);
+    });
+
+    it('should hash identifiers and file paths', () => {
+      const redacted = createRedactor({ hashIdentifiers: true, hashSalt: 'team' })(hmrPayload) as any;
+
+      expect(redacted.userName).toBe(hashValue('jdoe', 'team'));
+      expect(redacted.hostname).toBe(hashValue('jdoe-laptop', 'team'));
+      expect(redacted.file).toBe(hashValue('src/app.ts', 'team'));
+      expect(redacted.viteRoot).toBe(hashValue('/home/jdoe/app', 'team'));
+      expect(redacted.timeTaken).toBe(120);
+    });
+
+    it('should hash the file paths in session summaries', () => {
+      const session = {
+        type: 'session',
+        userName: 'jdoe',
+        hostname: 'jdoe-laptop',
+        slowestFiles: [{ file: 'src/app.ts', count: 1, average: 100, max: 100 }],
+      } as unknown as MetricsPayload;
+
+      const redacted = createRedactor({ hashIdentifiers: true })(session) as any;
+
+      expect(redacted.slowestFiles[0]).toEqual({ file: hashValue('src/app.ts'), count: 1, average: 100, max: 100 });
+    });
+
+    it('should apply the field allowlist and denylist', () => {
+      expect(createRedactor({ denyFields: ['repository', 'hostname'] })(hmrPayload)).toEqual({
+        type: 'hmr',
+        file: 'src/app.ts',
+        viteRoot: '/home/jdoe/app',
+        userName: 'jdoe',
+        timeTaken: 120,
+      });
+      expect(createRedactor({ allowFields: ['file', 'timeTaken'], denyFields: ['file'] })(hmrPayload)).toEqual({
+        type: 'hmr',
+        timeTaken: 120,
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { callbackReporter, consoleReporter, createReporterHub, jsonLinesReporter } from '../reporters';
+import { formatPayload } from '../reporters/console';
+import type { MetricsData, MetricsPayload, Reporter, ReporterContext, ViteBuildData } from '../types';
+
+const hmrPayload = {
+  id: 'test-id',
+  type: 'hmr',
+  file: 'src/app.ts',
+  timeTaken: 120,
+  moduleCount: 3,
+  browserFamily: 'chrome'
+} as MetricsData;
+
+describe('Reporters', () => {
+  let root: string;
+  let context: ReporterContext;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-'));
+    context = {
+      command: 'serve',
+      root,
+      cacheDir: path.join(root, 'node_modules/.vite'),
+      logger: { info: vi.fn(), warn: vi.fn() }
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('createReporterHub', () => {
+    it('should fan payloads out to every reporter', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const hub = createReporterHub([callbackReporter(first), callbackReporter(second)], 1);
+
+      hub.report(hmrPayload);
+      await hub.flush();
+
+      expect(first).toHaveBeenCalledWith(hmrPayload);
+      expect(second).toHaveBeenCalledWith(hmrPayload);
+    });
+
+    it('should keep reporting to the others when one reporter throws', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const broken: Reporter = { name: 'broken', report: () => { throw new Error('boom'); } };
+      const working = { name: 'working', report: vi.fn() };
+      const hub = createReporterHub([broken, working], 1);
+
+      hub.report(hmrPayload);
+
+      expect(working.report).toHaveBeenCalledWith(hmrPayload);
+      expect(console.error).toHaveBeenCalledWith('[vite-timing] Error in broken reporter:', expect.any(Error));
+    });
+
+    it('should apply sampling before any reporter sees the payload', () => {
+      const reporter = { name: 'test', report: vi.fn() };
+      const hub = createReporterHub([reporter], 0);
+
+      hub.report(hmrPayload);
+
+      expect(reporter.report).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('jsonLinesReporter', () => {
+    it('should append one line per payload to the default file', async () => {
+      const reporter = jsonLinesReporter();
+      reporter.setup?.(context);
+
+      void reporter.report(hmrPayload);
+      void reporter.report({ ...hmrPayload, id: 'second' });
+      await reporter.flush?.();
+
+      const lines = fs
+        .readFileSync(path.join(context.cacheDir, 'devfeedback', 'metrics.jsonl'), 'utf8')
+        .trim()
+        .split('\n');
+      expect(lines.map((line) => JSON.parse(line).id)).toEqual(['test-id', 'second']);
+    });
+
+    it('should resolve a custom file against the Vite root', async () => {
+      const reporter = jsonLinesReporter({ file: 'metrics/hmr.jsonl' });
+      reporter.setup?.(context);
+
+      void reporter.report(hmrPayload);
+      await reporter.flush?.();
+
+      expect(fs.existsSync(path.join(root, 'metrics/hmr.jsonl'))).toBe(true);
+    });
+  });
+
+  describe('consoleReporter', () => {
+    it('should print a compact line through the Vite logger', () => {
+      const reporter = consoleReporter();
+      reporter.setup?.(context);
+
+      void reporter.report(hmrPayload);
+
+      expect(context.logger.info).toHaveBeenCalledWith(
+        '[vite-timing] hmr src/app.ts 120ms (3 modules, chrome)',
+        { timestamp: true }
+      );
+    });
+
+    it('should format builds and start-ups', () => {
+      expect(formatPayload({
+        type: 'vite',
+        timeTaken: 4200,
+        buildStatus: 'success',
+        moduleCount: 120,
+        chunkCount: 5
+      } as ViteBuildData)).toBe('build success 4.2s (120 modules, 5 chunks)');
+
+      expect(formatPayload({
+        type: 'dev-server-startup',
+        timeTaken: 900,
+        isColdStart: true
+      } as MetricsPayload)).toBe('dev server ready 900ms (cold start)');
+    });
+  });
+
+  describe('callbackReporter', () => {
+    it('should contain errors thrown by the callback', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const reporter = callbackReporter(() => Promise.reject(new Error('boom')));
+
+      void reporter.report(hmrPayload);
+      await reporter.flush?.();
+
+      expect(console.error).toHaveBeenCalledWith('[vite-timing] Error in metrics callback:', expect.any(Error));
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import path from 'path';
+import { getCommonMetadata } from '../utils/metadata';
+import { SCHEMA_VERSION, validatePayload } from '../utils/schema';
+import type { FullReloadData, MetricsPayload } from '../types';
+
+const fullReload = (): FullReloadData => ({
+  ...getCommonMetadata(800, 'dev', { tags: { team: 'web' } }),
+  type: 'full-reload',
+  file: 'src/main.ts',
+  reason: 'no-hmr-boundary',
+  reloadSentTime: null
+});
+
+describe('Schema Utils', () => {
+  describe('validatePayload', () => {
+    it('should accept payloads built from the types', () => {
+      expect(fullReload().schemaVersion).toBe(SCHEMA_VERSION);
+      expect(validatePayload(fullReload())).toEqual([]);
+    });
+
+    it('should allow fields the schema does not know', () => {
+      expect(validatePayload({ ...fullReload(), team: 'checkout' } as MetricsPayload)).toEqual([]);
+    });
+
+    it('should report every mismatch with its field path', () => {
+      const payload = {
+        ...fullReload(),
+        reason: 'coffee-break',
+        timeTaken: Number.NaN,
+        tags: { team: 7 },
+        id: undefined
+      } as unknown as MetricsPayload;
+
+      expect(validatePayload(payload)).toEqual([
+        'id is required',
+        'timeTaken must be number',
+        'tags.team must be string',
+        'reason must be one of "no-hmr-boundary", "html-change", "config-change", "dep-optimization", "unknown"'
+      ]);
+    });
+
+    it('should reject unknown payload types', () => {
+      expect(validatePayload({ type: 'mystery' } as unknown as MetricsPayload)).toEqual([
+        'unknown payload type "mystery"'
+      ]);
+    });
+  });
+
+  it('should keep the generated schema in sync with the types', () => {
+    const script = path.resolve(__dirname, '../../scripts/generate-schema.mjs');
+    expect(() => execFileSync(process.execPath, [script, '--check'], { stdio: 'pipe' })).not.toThrow();
+  });
+});
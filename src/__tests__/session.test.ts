@@ -0,0 +1,114 @@
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import { createSessionStore, formatSessionSummary, getDurationStats, percentile } from '../utils/session';
+import { formatDuration } from '../utils/format';
+import type { MetricsPayload } from '../types';
+
+const hmr = (file: string, timeTaken: number) => ({ type: 'hmr', file, timeTaken }) as MetricsPayload;
+
+describe('Session Utils', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('percentile', () => {
+    it('should use the nearest-rank method', () => {
+      const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+      expect(percentile(sorted, 50)).toBe(50);
+      expect(percentile(sorted, 95)).toBe(100);
+      expect(percentile([], 50)).toBe(0);
+    });
+  });
+
+  describe('getDurationStats', () => {
+    it('should summarise durations regardless of order', () => {
+      expect(getDurationStats([300, 100, 200])).toEqual({
+        count: 3,
+        total: 600,
+        p50: 200,
+        p95: 300,
+        max: 300
+      });
+    });
+  });
+
+  describe('createSessionStore', () => {
+    it('should report HMR stats and the slowest files', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(61000);
+      const store = createSessionStore(1000);
+      store.add(hmr('src/a.ts', 100));
+      store.add(hmr('src/a.ts', 300));
+      store.add(hmr('src/b.ts', 900));
+      store.add({ type: 'full-reload', file: 'src/c.ts', reason: 'no-hmr-boundary', timeTaken: 1500 } as MetricsPayload);
+
+      const stats = store.getStats(2);
+
+      expect(stats.duration).toBe(60000);
+      expect(stats.hmr).toMatchObject({ count: 3, total: 1300, max: 900 });
+      expect(stats.fullReloads.count).toBe(1);
+      expect(stats.slowestFiles).toEqual([
+        { file: 'src/c.ts', count: 1, average: 1500, max: 1500 },
+        { file: 'src/b.ts', count: 1, average: 900, max: 900 }
+      ]);
+    });
+
+    it('should count an update reported by several clients once, with the slowest time', () => {
+      const store = createSessionStore(1000);
+      const change = {};
+      store.add(hmr('src/a.ts', 500), change);
+      store.add(hmr('src/a.ts', 600), change);
+      store.add(hmr('src/a.ts', 200), {});
+
+      expect(store.getStats().hmr).toMatchObject({ count: 2, total: 800, max: 600 });
+      expect(store.getEvents()).toHaveLength(3);
+    });
+
+    it('should keep every wait in the stats once old events leave the dashboard', () => {
+      const store = createSessionStore(1000);
+      store.add(hmr('src/a.ts', 100));
+      for (let i = 0; i < 5000; i++) {
+        store.add({ type: 'page-load', timeTaken: 10 } as MetricsPayload);
+      }
+
+      expect(store.getEvents()).toHaveLength(5000);
+      expect(store.getStats().hmr.count).toBe(1);
+      expect(store.getStats().slowestFiles).toEqual([{ file: 'src/a.ts', count: 1, average: 100, max: 100 }]);
+    });
+  });
+
+  describe('formatSessionSummary', () => {
+    it('should list totals, percentiles, slowest files and full reloads', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(3_601_000);
+      const store = createSessionStore(1000);
+      store.add(hmr('src/a.ts', 100));
+      store.add(hmr('src/b.ts', 2500));
+      store.add({ type: 'full-reload', file: 'src/c.ts', reason: 'no-hmr-boundary', timeTaken: 1500 } as MetricsPayload);
+
+      const summary = formatSessionSummary(store.getStats(5)).join('\n');
+
+      expect(summary).toContain('Session summary (1h 0m)');
+      expect(summary).toContain('HMR updates:   2, 2.6s spent waiting');
+      expect(summary).toContain('p50 100ms, p95 2.5s, max 2.5s');
+      expect(summary).toContain('src/b.ts (1x, avg 2.5s)');
+      expect(summary).toContain('src/c.ts (no-hmr-boundary)');
+    });
+
+    it('should list plugin time when plugins were profiled', () => {
+      const stats = createSessionStore().getStats();
+      const pluginTimings = [
+        { plugin: 'vite:esbuild', totalTime: 1200, resolveIdTime: 0, loadTime: 0, transformTime: 1200, calls: 300, slowestFile: 'src/a.ts' }
+      ];
+
+      expect(formatSessionSummary(stats).join('\n')).not.toContain('Plugin time');
+      expect(formatSessionSummary({ ...stats, pluginTimings }).join('\n')).toContain('1.2s  vite:esbuild (300 calls)');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should pick a unit that fits the duration', () => {
+      expect(formatDuration(250)).toBe('250ms');
+      expect(formatDuration(4200)).toBe('4.2s');
+      expect(formatDuration(125_000)).toBe('2m 5s');
+      expect(formatDuration(7_500_000)).toBe('2h 5m');
+    });
+  });
+});
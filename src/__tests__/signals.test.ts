@@ -0,0 +1,54 @@
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import { onExitSignal } from '../utils/signals';
+
+describe('Signal Utils', () => {
+  const otherListener = () => {};
+
+  afterEach(() => {
+    process.off('SIGINT', otherListener);
+  });
+
+  it('should run every registered handler once on a signal', async () => {
+    // Another listener owns exiting, so the signal is not re-raised here
+    process.on('SIGINT', otherListener);
+    const first = vi.fn().mockResolvedValue(undefined);
+    const second = vi.fn().mockResolvedValue(undefined);
+    const removeFirst = onExitSignal(first);
+    const removeSecond = onExitSignal(second);
+
+    process.emit('SIGINT', 'SIGINT');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    removeFirst();
+    removeSecond();
+  });
+
+  it('should not run the handlers again on a second signal while they run', async () => {
+    process.on('SIGINT', otherListener);
+    let finish = () => {};
+    const handler = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const remove = onExitSignal(handler);
+
+    process.emit('SIGINT', 'SIGINT');
+    process.emit('SIGINT', 'SIGINT');
+    finish();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    remove();
+  });
+
+  it('should share one process listener and remove it with the last handler', () => {
+    const before = process.listenerCount('SIGTERM');
+    const removeFirst = onExitSignal(vi.fn());
+    const removeSecond = onExitSignal(vi.fn());
+
+    expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+
+    removeFirst();
+    removeSecond();
+    expect(process.listenerCount('SIGTERM')).toBe(before);
+  });
+});
@@ -0,0 +1,47 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStartupTimings, getProcessStartTime, hasDepsCache, _TEST_resetStartupState } from '../utils/startup';
+
+describe('Startup Utils', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    _TEST_resetStartupState();
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vite-timing-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should derive the process start time from uptime', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(10000);
+    vi.spyOn(process, 'uptime').mockReturnValue(2.5);
+
+    expect(getProcessStartTime()).toBe(7500);
+  });
+
+  it('should detect a warm start from the optimized deps metadata', () => {
+    expect(hasDepsCache(cacheDir)).toBe(false);
+
+    fs.mkdirSync(path.join(cacheDir, 'deps'));
+    fs.writeFileSync(path.join(cacheDir, 'deps', '_metadata.json'), '{}');
+
+    expect(hasDepsCache(cacheDir)).toBe(true);
+    expect(createStartupTimings(cacheDir).isColdStart).toBe(false);
+  });
+
+  it('should measure restarts from the restart instead of process start', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(10000);
+    vi.spyOn(process, 'uptime').mockReturnValue(5);
+
+    const first = createStartupTimings(cacheDir);
+    const second = createStartupTimings(cacheDir);
+
+    expect(first).toMatchObject({ startedAt: 5000, isRestart: false, isColdStart: true });
+    expect(second).toMatchObject({ startedAt: 10000, isRestart: true });
+  });
+});
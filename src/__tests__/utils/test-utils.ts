@@ -25,14 +25,22 @@ class MockSocketClient extends EventEmitter {
   }
 }
 
-export function createMockServer(watcher = new EventEmitter()): Partial<ViteDevServer> & { simulateHMRUpdate: (data: any) => void } {
+export function createMockServer(watcher = new EventEmitter()): Partial<ViteDevServer> & {
+  simulateHMRUpdate: (data: any) => void;
+  simulateClientEvent: (event: string, data: unknown) => void;
+} {
   const socket = new MockSocketClient();
+  const clientEventHandlers = new Map<string, (data: unknown) => void>();
   
   const wsServer = {
+    send: vi.fn(),
     on: (event: string, callback: (socket: MockSocketClient) => void) => {
       if (event === 'connection') {
         // Call the callback immediately with our socket
         callback(socket);
+      } else {
+        // Custom events sent with import.meta.hot.send
+        clientEventHandlers.set(event, callback as unknown as (data: unknown) => void);
       }
       return wsServer;
     }
@@ -57,6 +65,9 @@ export function createMockServer(watcher = new EventEmitter()): Partial<ViteDevS
     _mockSocket: socket,
     simulateHMRUpdate(data: any) {
       socket.simulateMessage(JSON.stringify(data));
+    },
+    simulateClientEvent(event: string, data: unknown) {
+      clientEventHandlers.get(event)?.(data);
     }
   };
 }
@@ -64,6 +75,7 @@ export function createMockServer(watcher = new EventEmitter()): Partial<ViteDevS
 export class MockRequest extends EventEmitter {
   url: string;
   method: string;
+  headers: Record<string, string> = {};
 
   constructor(url: string, method = 'POST') {
     super();
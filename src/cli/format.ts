@@ -0,0 +1,122 @@
+import { formatDuration } from '../utils/format';
+import type { Comparison, Report } from './metrics';
+
+export type OutputFormat = 'table' | 'json' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'markdown'];
+
+interface Section {
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const formatChange = (change: number | null): string => {
+  if (change === null) return 'n/a';
+  const percent = Math.round(change * 100);
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+};
+
+// Columns after the first hold numbers and are right-aligned
+const renderTable = ({ title, headers, rows }: Section): string[] => {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const renderRow = (row: string[]) =>
+    row
+      .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+      .join('  ')
+      .trimEnd();
+
+  return [title, renderRow(headers), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.map(renderRow)];
+};
+
+const renderMarkdown = ({ title, headers, rows }: Section): string[] => {
+  const renderRow = (row: string[]) => `| ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [
+    `### ${title}`,
+    '',
+    renderRow(headers),
+    `|${headers.map((_header, column) => (column === 0 ? ' --- ' : ' ---: ')).join('|')}|`,
+    ...rows.map(renderRow),
+  ];
+};
+
+const renderSections = (heading: string, sections: Section[], format: Exclude<OutputFormat, 'json'>): string => {
+  const nonEmpty = sections.filter((section) => section.rows.length > 0);
+  const blocks = nonEmpty.map((section) => (format === 'markdown' ? renderMarkdown(section) : renderTable(section)).join('\n'));
+  const title = format === 'markdown' ? `## ${heading}` : heading;
+  return [title, ...(blocks.length > 0 ? blocks : ['No metrics matched.'])].join('\n\n') + '\n';
+};
+
+export const formatReport = (report: Report, format: OutputFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2) + '\n';
+  }
+
+  return renderSections(
+    `Metrics report: ${report.label} (${report.eventCount} events)`,
+    [
+      {
+        title: 'By metric type',
+        headers: ['type', 'count', 'p50', 'p95', 'max', 'total'],
+        rows: report.types.map((stats) => [
+          stats.type,
+          String(stats.count),
+          formatDuration(stats.p50),
+          formatDuration(stats.p95),
+          formatDuration(stats.max),
+          formatDuration(stats.total),
+        ]),
+      },
+      {
+        title: 'Slowest files',
+        headers: ['file', 'count', 'avg', 'max'],
+        rows: report.slowestFiles.map((file) => [
+          file.file,
+          String(file.count),
+          formatDuration(file.average),
+          formatDuration(file.max),
+        ]),
+      },
+      {
+        title: 'Trend',
+        headers: ['period', 'type', 'count', 'p50', 'p95'],
+        rows: report.trends.map((point) => [
+          point.period,
+          point.type,
+          String(point.count),
+          formatDuration(point.p50),
+          formatDuration(point.p95),
+        ]),
+      },
+    ],
+    format
+  );
+};
+
+export const formatComparison = (comparison: Comparison, format: OutputFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(comparison, null, 2) + '\n';
+  }
+
+  return renderSections(
+    `Comparison: ${comparison.base} vs ${comparison.head}`,
+    [
+      {
+        title: 'By metric type',
+        headers: ['type', 'base count', 'head count', 'base p50', 'head p50', 'p50 change', 'base p95', 'head p95', 'p95 change'],
+        rows: comparison.types.map((type) => [
+          type.type,
+          String(type.base.count),
+          String(type.head.count),
+          formatDuration(type.base.p50),
+          formatDuration(type.head.p50),
+          formatChange(type.p50Change),
+          formatDuration(type.base.p95),
+          formatDuration(type.head.p95),
+          formatChange(type.p95Change),
+        ]),
+      },
+    ],
+    format
+  );
+};
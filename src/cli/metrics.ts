@@ -0,0 +1,211 @@
+import fs from 'fs';
+import type { FileStats, MetricsPayload } from '../types';
+import { getDurationStats, getSlowestFiles, type DurationStats } from '../utils/session';
+import { getPayloadSchema, validateAgainst } from '../utils/schema';
+import { payloadSchema } from '../generated/payload-schema';
+
+export type TrendInterval = 'day' | 'week';
+
+// Picks a subset of the metrics: a branch, a commit (or its prefix) or a date
+// range, e.g. `branch:main`, `commit:3f2a91c` or `date:2024-05-01..2024-05-31`
+export interface Selector {
+  label: string;
+  matches: (payload: MetricsPayload) => boolean;
+}
+
+export interface LoadedMetrics {
+  payloads: MetricsPayload[];
+  // Lines that weren't JSON or lacked the fields the reports use
+  skippedLines: number;
+}
+
+export interface TypeStats extends DurationStats {
+  type: MetricsPayload['type'];
+}
+
+export interface TrendPoint {
+  period: string;
+  type: MetricsPayload['type'];
+  count: number;
+  p50: number;
+  p95: number;
+}
+
+export interface Report {
+  label: string;
+  eventCount: number;
+  types: TypeStats[];
+  slowestFiles: FileStats[];
+  trends: TrendPoint[];
+}
+
+export interface TypeComparison {
+  type: MetricsPayload['type'];
+  base: DurationStats;
+  head: DurationStats;
+  // Relative change of head against base; null when base has no events
+  p50Change: number | null;
+  p95Change: number | null;
+}
+
+export interface Comparison {
+  base: string;
+  head: string;
+  types: TypeComparison[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The fields the reports read; any other may have been left out by the
+// privacy options, and those present here may be hashed
+const REPORT_FIELDS = ['type', 'timeTaken', 'timestamp', 'branch', 'commitSha', 'file'];
+
+const isUsableMetric = (payload: MetricsPayload): boolean => {
+  const schema = getPayloadSchema(payload.type);
+  if (!schema) return false;
+  const properties = Object.fromEntries(
+    REPORT_FIELDS.flatMap((field) => (schema.properties?.[field] ? [[field, schema.properties[field]]] : []))
+  );
+  return validateAgainst(payload, { type: 'object', properties, required: ['type', 'timeTaken'] }, payloadSchema).length === 0;
+};
+
+export const readMetrics = (files: string[]): LoadedMetrics => {
+  const payloads: MetricsPayload[] = [];
+  let skippedLines = 0;
+
+  for (const file of files) {
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const payload = JSON.parse(line) as MetricsPayload;
+        if (isUsableMetric(payload)) {
+          payloads.push(payload);
+          continue;
+        }
+      } catch {
+        // Counted below like any other unusable line
+      }
+      skippedLines++;
+    }
+  }
+
+  return { payloads, skippedLines };
+};
+
+// Date-only bounds are whole days, so `..2024-05-31` includes the 31st
+const parseDate = (value: string, endOfDay: boolean): number => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS - 1 : time;
+};
+
+export const parseSelector = (value: string): Selector => {
+  const separator = value.indexOf(':');
+  const kind = value.slice(0, separator);
+  const argument = value.slice(separator + 1);
+  if (separator < 1 || !argument) {
+    throw new Error(`Invalid selector "${value}", expected branch:<name>, commit:<sha> or date:<from>..<to>`);
+  }
+
+  switch (kind) {
+    case 'branch':
+      return { label: value, matches: (payload) => payload.branch === argument };
+    case 'commit':
+      return {
+        label: value,
+        matches: (payload) => typeof payload.commitSha === 'string' && payload.commitSha.startsWith(argument),
+      };
+    case 'date': {
+      const [from, to] = argument.split('..');
+      const start = from ? parseDate(from, false) : -Infinity;
+      const end = to ? parseDate(to, true) : Infinity;
+      return {
+        label: value,
+        matches: (payload) => typeof payload.timestamp === 'number' && payload.timestamp >= start && payload.timestamp <= end,
+      };
+    }
+    default:
+      throw new Error(`Unknown selector "${kind}", expected branch, commit or date`);
+  }
+};
+
+const groupByType = (payloads: MetricsPayload[]): Map<MetricsPayload['type'], number[]> => {
+  const byType = new Map<MetricsPayload['type'], number[]>();
+  for (const payload of payloads) {
+    const times = byType.get(payload.type) ?? [];
+    times.push(payload.timeTaken);
+    byType.set(payload.type, times);
+  }
+  return byType;
+};
+
+// Weeks start on Monday, in UTC like the days
+const getPeriod = (timestamp: number, interval: TrendInterval): string => {
+  const date = new Date(timestamp);
+  if (interval === 'week') {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+export const getTrends = (payloads: MetricsPayload[], interval: TrendInterval): TrendPoint[] => {
+  const byPeriod = new Map<string, MetricsPayload[]>();
+  for (const payload of payloads) {
+    if (typeof payload.timestamp !== 'number') continue;
+    const period = getPeriod(payload.timestamp, interval);
+    const events = byPeriod.get(period) ?? [];
+    events.push(payload);
+    byPeriod.set(period, events);
+  }
+
+  return Array.from(byPeriod)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([period, events]) =>
+      Array.from(groupByType(events), ([type, times]) => {
+        const { count, p50, p95 } = getDurationStats(times);
+        return { period, type, count, p50, p95 };
+      })
+    );
+};
+
+export const createReport = (
+  label: string,
+  payloads: MetricsPayload[],
+  { topFiles, interval }: { topFiles: number; interval: TrendInterval }
+): Report => {
+  return {
+    label,
+    eventCount: payloads.length,
+    types: Array.from(groupByType(payloads), ([type, times]) => ({ type, ...getDurationStats(times) })),
+    slowestFiles: getSlowestFiles(payloads, topFiles),
+    trends: getTrends(payloads, interval),
+  };
+};
+
+const getChange = (base: number, head: number): number | null => {
+  return base === 0 ? null : (head - base) / base;
+};
+
+export const compareMetrics = (payloads: MetricsPayload[], base: Selector, head: Selector): Comparison => {
+  const baseTimes = groupByType(payloads.filter(base.matches));
+  const headTimes = groupByType(payloads.filter(head.matches));
+  const types = Array.from(new Set([...baseTimes.keys(), ...headTimes.keys()]));
+
+  return {
+    base: base.label,
+    head: head.label,
+    types: types.map((type) => {
+      const baseStats = getDurationStats(baseTimes.get(type) ?? []);
+      const headStats = getDurationStats(headTimes.get(type) ?? []);
+      return {
+        type,
+        base: baseStats,
+        head: headStats,
+        p50Change: getChange(baseStats.p50, headStats.p50),
+        p95Change: getChange(baseStats.p95, headStats.p95),
+      };
+    }),
+  };
+};
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { MetricsPayload } from '../types';
+import { formatComparison, formatReport, OUTPUT_FORMATS, type OutputFormat } from './format';
+import { compareMetrics, createReport, parseSelector, readMetrics, type TrendInterval } from './metrics';
+
+// Where the jsonLinesReporter writes when Vite's cacheDir is the default
+const DEFAULT_METRICS_FILE = path.join('node_modules', '.vite', 'devfeedback', 'metrics.jsonl');
+
+export const USAGE = `Usage:
+  devfeedback-vite report [files...] [--filter <selector>] [--type <type>] [--top <n>] [--interval day|week] [--format table|json|markdown]
+  devfeedback-vite compare [files...] --base <selector> --head <selector> [--type <type>] [--format table|json|markdown]
+
+Reads metrics recorded by jsonLinesReporter, by default from ${DEFAULT_METRICS_FILE}.
+
+Selectors pick metrics by branch, commit (or its prefix) or date range:
+  branch:main  commit:3f2a91c  date:2024-05-01..2024-05-31  date:2024-05-01..
+`;
+
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const parseFormat = (value: string | undefined): OutputFormat => {
+  const format = (value ?? 'table') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${value}", expected ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+};
+
+const parseInterval = (value: string | undefined): TrendInterval => {
+  if (value !== undefined && value !== 'day' && value !== 'week') {
+    throw new Error(`Unknown interval "${value}", expected day or week`);
+  }
+  return value ?? 'day';
+};
+
+const parseTop = (value: string | undefined): number => {
+  const top = Number(value ?? 10);
+  if (!Number.isInteger(top) || top < 0) {
+    throw new Error(`Invalid --top "${value}", expected a whole number`);
+  }
+  return top;
+};
+
+// Returns the exit code; errors go to stderr with the usage instead of a stack trace
+export const runCli = (args: string[], output: CliOutput): number => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        filter: { type: 'string' },
+        base: { type: 'string' },
+        head: { type: 'string' },
+        type: { type: 'string' },
+        top: { type: 'string' },
+        interval: { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+
+    const [command, ...files] = positionals;
+    if (values.help || !command) {
+      output.stdout(USAGE);
+      return 0;
+    }
+    if (command !== 'report' && command !== 'compare') {
+      throw new Error(`Unknown command "${command}"`);
+    }
+
+    const format = parseFormat(values.format);
+    const metricsFiles = files.length > 0 ? files : [DEFAULT_METRICS_FILE];
+    const missing = metricsFiles.filter((file) => !fs.existsSync(file));
+    if (missing.length > 0) {
+      throw new Error(`No metrics file at ${missing.join(', ')}`);
+    }
+
+    const { payloads, skippedLines } = readMetrics(metricsFiles);
+    if (skippedLines > 0) {
+      output.stderr(`Skipped ${skippedLines} lines that aren't valid metrics\n`);
+    }
+    const ofType = values.type
+      ? payloads.filter((payload) => payload.type === (values.type as MetricsPayload['type']))
+      : payloads;
+
+    if (command === 'compare') {
+      if (!values.base || !values.head) {
+        throw new Error('compare needs both --base and --head');
+      }
+      output.stdout(formatComparison(compareMetrics(ofType, parseSelector(values.base), parseSelector(values.head)), format));
+      return 0;
+    }
+
+    const filter = values.filter ? parseSelector(values.filter) : null;
+    const report = createReport(filter?.label ?? 'all metrics', filter ? ofType.filter(filter.matches) : ofType, {
+      topFiles: parseTop(values.top),
+      interval: parseInterval(values.interval),
+    });
+    output.stdout(formatReport(report, format));
+    return 0;
+  } catch (error) {
+    output.stderr(`devfeedback-vite: ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 1;
+  }
+};
@@ -0,0 +1,107 @@
+export const DASHBOARD_PATH = '/__devfeedback';
+export const DASHBOARD_API_PATH = '/__devfeedback/api/session';
+
+export const dashboardHtml = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>devfeedback</title>
+  <style>
+    body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #222; }
+    h1 { font-size: 1.4rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    .cards { display: flex; gap: 1rem; flex-wrap: wrap; }
+    .card { border: 1px solid #ddd; border-radius: 6px; padding: 0.75rem 1rem; min-width: 8rem; }
+    .card b { display: block; font-size: 1.3rem; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 0.25rem 0.75rem 0.25rem 0; border-bottom: 1px solid #eee; }
+    td.num, th.num { text-align: right; }
+    .empty { color: #888; }
+  </style>
+</head>
+<body>
+  <h1>devfeedback: this session</h1>
+  <div class="cards" id="cards"></div>
+  <h2>Slowest files</h2>
+  <table id="files"></table>
+  <h2>Full reloads</h2>
+  <table id="reloads"></table>
+  <h2>Builds and start-up</h2>
+  <table id="builds"></table>
+  <h2>Recent HMR updates</h2>
+  <table id="hmr"></table>
+  <script type="module">
+    const ms = (value) => value < 1000 ? Math.round(value) + 'ms' : (value / 1000).toFixed(1) + 's';
+    const time = (value) => new Date(value).toLocaleTimeString();
+
+    const renderTable = (id, headers, rows) => {
+      const table = document.getElementById(id);
+      table.replaceChildren();
+      if (rows.length === 0) {
+        const cell = table.insertRow().insertCell();
+        cell.className = 'empty';
+        cell.textContent = 'Nothing yet';
+        return;
+      }
+      const head = table.createTHead().insertRow();
+      headers.forEach(([label, numeric]) => {
+        const th = document.createElement('th');
+        th.textContent = label;
+        if (numeric) th.className = 'num';
+        head.appendChild(th);
+      });
+      const body = table.createTBody();
+      rows.forEach((row) => {
+        const tr = body.insertRow();
+        row.forEach((value, index) => {
+          const td = tr.insertCell();
+          td.textContent = value;
+          if (headers[index][1]) td.className = 'num';
+        });
+      });
+    };
+
+    const renderCards = (stats) => {
+      const cards = [
+        ['Session', ms(stats.duration)],
+        ['HMR updates', stats.hmr.count],
+        ['Waiting on HMR', ms(stats.hmr.total)],
+        ['p50', ms(stats.hmr.p50)],
+        ['p95', ms(stats.hmr.p95)],
+        ['max', ms(stats.hmr.max)],
+        ['Full reloads', stats.fullReloads.count]
+      ];
+      document.getElementById('cards').replaceChildren(...cards.map(([label, value]) => {
+        const card = document.createElement('div');
+        card.className = 'card';
+        const strong = document.createElement('b');
+        strong.textContent = value;
+        card.append(strong, label);
+        return card;
+      }));
+    };
+
+    const refresh = async () => {
+      const { stats, events } = await (await fetch('${DASHBOARD_API_PATH}')).json();
+      renderCards(stats);
+      renderTable('files', [['File'], ['Updates', true], ['Average', true], ['Max', true]],
+        stats.slowestFiles.map((file) => [file.file, file.count, ms(file.average), ms(file.max)]));
+      renderTable('reloads', [['Time'], ['File'], ['Reason'], ['Duration', true]],
+        events.filter((event) => event.type === 'full-reload').reverse()
+          .map((event) => [time(event.timestamp), event.file ?? '*', event.reason, ms(event.timeTaken)]));
+      renderTable('builds', [['Time'], ['Kind'], ['Result'], ['Duration', true]],
+        events.filter((event) => event.type === 'vite' || event.type === 'dev-server-startup').reverse()
+          .map((event) => event.type === 'vite'
+            ? [time(event.timestamp), 'build', event.buildStatus, ms(event.timeTaken)]
+            : [time(event.timestamp), 'dev server start-up', event.isColdStart ? 'cold' : 'warm', ms(event.timeTaken)]));
+      renderTable('hmr', [['Time'], ['File'], ['Modules', true], ['Duration', true]],
+        events.filter((event) => event.type === 'hmr').slice(-50).reverse()
+          .map((event) => [time(event.timestamp), event.file, event.moduleCount ?? '', ms(event.timeTaken)]));
+    };
+
+    refresh();
+    setInterval(refresh, 2000);
+  </script>
+</body>
+</html>
+`;
@@ -0,0 +1,2128 @@
+// Generated by scripts/generate-schema.mjs from src/types.ts; do not edit.
+import type { JsonSchema } from '../utils/schema';
+
+export const payloadSchema: JsonSchema = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "title": "MetricsPayload",
+  "description": "A single metrics event, told apart by its `type` field.",
+  "oneOf": [
+    {
+      "$ref": "#/$defs/MetricsData"
+    },
+    {
+      "$ref": "#/$defs/ViteBuildData"
+    },
+    {
+      "$ref": "#/$defs/DevServerStartupData"
+    },
+    {
+      "$ref": "#/$defs/FullReloadData"
+    },
+    {
+      "$ref": "#/$defs/HmrErrorData"
+    },
+    {
+      "$ref": "#/$defs/HmrRecoveryData"
+    },
+    {
+      "$ref": "#/$defs/NoUpdateData"
+    },
+    {
+      "$ref": "#/$defs/EnvironmentHmrData"
+    },
+    {
+      "$ref": "#/$defs/DepsOptimizationData"
+    },
+    {
+      "$ref": "#/$defs/PageLoadData"
+    },
+    {
+      "$ref": "#/$defs/SessionData"
+    }
+  ],
+  "$defs": {
+    "DepsOptimizationData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "deps-optimization"
+        },
+        "kind": {
+          "description": "The first run of the dev server, or one for newly discovered imports",
+          "enum": [
+            "initial",
+            "re-optimization"
+          ]
+        },
+        "status": {
+          "enum": [
+            "success",
+            "failure"
+          ]
+        },
+        "dependencyCount": {
+          "type": "number"
+        },
+        "newDependencies": {
+          "description": "Dependencies discovered since the previous run, named as in the deps cache",
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "scanTime": {
+          "description": "Scanning the app for imports before the initial run",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "forcedReload": {
+          "description": "Whether open pages had to reload to pick up the new bundle",
+          "type": "boolean"
+        },
+        "file": {
+          "description": "The edit whose new imports led to a re-optimization, if any",
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "kind",
+        "status",
+        "dependencyCount",
+        "newDependencies",
+        "scanTime",
+        "forcedReload",
+        "file",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "DevServerStartupData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "dev-server-startup"
+        },
+        "viteVersion": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "isColdStart": {
+          "type": "boolean"
+        },
+        "isRestart": {
+          "type": "boolean"
+        },
+        "configureServerTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "serverListeningTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "firstHtmlServedTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "viteVersion",
+        "isColdStart",
+        "isRestart",
+        "configureServerTime",
+        "serverListeningTime",
+        "firstHtmlServedTime",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "EnvironmentHmrData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "environment-hmr"
+        },
+        "environment": {
+          "description": "Vite environment the module runs in; `ssr` before Vite 6",
+          "type": "string"
+        },
+        "file": {
+          "type": "string"
+        },
+        "invalidationTime": {
+          "description": "From the change being detected to the module graph invalidating the file",
+          "type": "number"
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "environment",
+        "file",
+        "invalidationTime",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "FileStats": {
+      "type": "object",
+      "properties": {
+        "file": {
+          "type": "string"
+        },
+        "count": {
+          "type": "number"
+        },
+        "average": {
+          "type": "number"
+        },
+        "max": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "file",
+        "count",
+        "average",
+        "max"
+      ]
+    },
+    "FullReloadData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "full-reload"
+        },
+        "file": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "reason": {
+          "enum": [
+            "no-hmr-boundary",
+            "html-change",
+            "config-change",
+            "dep-optimization",
+            "unknown"
+          ]
+        },
+        "reloadSentTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "file",
+        "reason",
+        "reloadSentTime",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "HmrErrorData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "hmr-error"
+        },
+        "file": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "plugin": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "category": {
+          "enum": [
+            "syntax",
+            "type",
+            "resolve",
+            "other"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "file",
+        "plugin",
+        "category",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "HmrPhaseTimings": {
+      "type": "object",
+      "properties": {
+        "changeToHotUpdate": {
+          "description": "watcher `change` -> our `handleHotUpdate` (watcher latency and earlier plugins)",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "hotUpdateToSend": {
+          "description": "`handleHotUpdate` -> update payload sent over the websocket (invalidation and later plugins)",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "sendToClient": {
+          "description": "payload sent -> client `vite:beforeUpdate` (network and client scheduling)",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "clientApply": {
+          "description": "client `vite:beforeUpdate` -> `vite:afterUpdate` (fetching and executing updated modules)",
+          "type": [
+            "null",
+            "number"
+          ]
+        }
+      },
+      "required": [
+        "changeToHotUpdate",
+        "hotUpdateToSend",
+        "sendToClient",
+        "clientApply"
+      ]
+    },
+    "HmrRecoveryData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "hmr-recovery"
+        },
+        "file": {
+          "type": "string"
+        },
+        "plugin": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "category": {
+          "enum": [
+            "syntax",
+            "type",
+            "resolve",
+            "other"
+          ]
+        },
+        "errorCount": {
+          "description": "Failures of the file before it was fixed, including the first one",
+          "type": "number"
+        },
+        "overlayTime": {
+          "description": "From the error overlay first appearing in a browser to the fix applying",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "file",
+        "plugin",
+        "category",
+        "errorCount",
+        "overlayTime",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "MetricsData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "hmr"
+        },
+        "file": {
+          "type": "string"
+        },
+        "moduleCount": {
+          "type": "number"
+        },
+        "hmrBoundaryCount": {
+          "type": "number"
+        },
+        "importerChainDepth": {
+          "type": "number"
+        },
+        "phases": {
+          "$ref": "#/$defs/HmrPhaseTimings"
+        },
+        "clientId": {
+          "type": "string"
+        },
+        "browserFamily": {
+          "type": "string"
+        },
+        "viteRoot": {
+          "type": "string"
+        },
+        "workspaceRoot": {
+          "type": "string"
+        },
+        "packageName": {
+          "description": "From the package.json nearest to the file",
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "packageVersion": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "fileOrigin": {
+          "enum": [
+            "project",
+            "workspace-package",
+            "node_modules"
+          ]
+        },
+        "slowestPlugins": {
+          "description": "With profilePlugins, the plugins that took longest during this update",
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/PluginTiming"
+          }
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "file",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "NoUpdateData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "no-update"
+        },
+        "file": {
+          "type": "string"
+        },
+        "reason": {
+          "enum": [
+            "unknown",
+            "ignored-by-watcher",
+            "not-imported",
+            "no-connected-client"
+          ]
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "file",
+        "reason",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "PageLoadData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "page-load"
+        },
+        "page": {
+          "description": "Path of the page, without query or hash",
+          "type": "string"
+        },
+        "responseStartTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "domContentLoadedTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "loadEventTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "firstContentfulPaintTime": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "readyTime": {
+          "description": "When the app called markReady() from the client module",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "moduleRequestCount": {
+          "description": "Same-origin requests with a script, link or other initiator: the modules Vite served, stylesheets and preloads; images, fetch() calls and assets referenced from CSS aren't counted",
+          "type": "number"
+        },
+        "moduleTransferTime": {
+          "description": "Summed durations of those requests, which overlap",
+          "type": "number"
+        },
+        "moduleWaterfallTime": {
+          "description": "Until the last of those requests finished",
+          "type": "number"
+        },
+        "clientId": {
+          "type": "string"
+        },
+        "browserFamily": {
+          "type": "string"
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "page",
+        "responseStartTime",
+        "domContentLoadedTime",
+        "loadEventTime",
+        "firstContentfulPaintTime",
+        "readyTime",
+        "moduleRequestCount",
+        "moduleTransferTime",
+        "moduleWaterfallTime",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "PluginTiming": {
+      "type": "object",
+      "properties": {
+        "plugin": {
+          "type": "string"
+        },
+        "totalTime": {
+          "type": "number"
+        },
+        "resolveIdTime": {
+          "type": "number"
+        },
+        "loadTime": {
+          "type": "number"
+        },
+        "transformTime": {
+          "type": "number"
+        },
+        "calls": {
+          "type": "number"
+        },
+        "slowestFile": {
+          "description": "File of the plugin's slowest single hook call",
+          "type": [
+            "null",
+            "string"
+          ]
+        }
+      },
+      "required": [
+        "plugin",
+        "totalTime",
+        "resolveIdTime",
+        "loadTime",
+        "transformTime",
+        "calls",
+        "slowestFile"
+      ]
+    },
+    "SessionData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "session"
+        },
+        "sessionDuration": {
+          "type": "number"
+        },
+        "hmrCount": {
+          "type": "number"
+        },
+        "hmrTotalTime": {
+          "type": "number"
+        },
+        "hmrP50": {
+          "type": "number"
+        },
+        "hmrP95": {
+          "type": "number"
+        },
+        "hmrMax": {
+          "type": "number"
+        },
+        "fullReloadCount": {
+          "type": "number"
+        },
+        "fullReloadTotalTime": {
+          "type": "number"
+        },
+        "slowestFiles": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/FileStats"
+          }
+        },
+        "pluginTimings": {
+          "description": "With profilePlugins, every plugin's hook time over the whole session",
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/PluginTiming"
+          }
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "sessionDuration",
+        "hmrCount",
+        "hmrTotalTime",
+        "hmrP50",
+        "hmrP95",
+        "hmrMax",
+        "fullReloadCount",
+        "fullReloadTotalTime",
+        "slowestFiles",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "ViteBuildData": {
+      "type": "object",
+      "properties": {
+        "type": {
+          "const": "vite"
+        },
+        "viteVersion": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "bundleStats": {
+          "$ref": "#/$defs/ViteBundleStats"
+        },
+        "buildStatus": {
+          "enum": [
+            "success",
+            "failure"
+          ]
+        },
+        "errorClass": {
+          "type": "string"
+        },
+        "errorCode": {
+          "type": "string"
+        },
+        "moduleCount": {
+          "type": "number"
+        },
+        "chunkCount": {
+          "type": "number"
+        },
+        "assetCount": {
+          "type": "number"
+        },
+        "slowestPlugins": {
+          "description": "With profilePlugins, the plugins that took longest during this build",
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/PluginTiming"
+          }
+        },
+        "schemaVersion": {
+          "description": "Bumped on every breaking change to any payload",
+          "const": 1
+        },
+        "id": {
+          "type": "string"
+        },
+        "userName": {
+          "type": "string"
+        },
+        "cpuCount": {
+          "type": "number"
+        },
+        "hostname": {
+          "type": "string"
+        },
+        "platform": {
+          "type": "string"
+        },
+        "os": {
+          "type": "string"
+        },
+        "timeTaken": {
+          "type": "number"
+        },
+        "branch": {
+          "type": "string"
+        },
+        "projectName": {
+          "type": "string"
+        },
+        "repository": {
+          "type": "string"
+        },
+        "repositoryName": {
+          "type": "string"
+        },
+        "timestamp": {
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "builtAt": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "totalMemory": {
+          "type": "number"
+        },
+        "cpuModels": {
+          "type": "array",
+          "items": {
+            "type": "string"
+          }
+        },
+        "cpuSpeed": {
+          "type": "array",
+          "items": {
+            "type": "number"
+          }
+        },
+        "nodeVersion": {
+          "type": "string"
+        },
+        "v8Version": {
+          "type": "string"
+        },
+        "commitSha": {
+          "type": "string"
+        },
+        "dirtyFileCount": {
+          "description": "Files `git status` lists as changed; null until the first count finishes, and up to a minute behind while files are being edited",
+          "type": [
+            "null",
+            "number"
+          ]
+        },
+        "customIdentifier": {
+          "type": [
+            "null",
+            "string"
+          ]
+        },
+        "tags": {
+          "type": "object",
+          "properties": {},
+          "additionalProperties": {
+            "type": "string"
+          }
+        },
+        "ci": {
+          "type": "boolean"
+        },
+        "ciProvider": {
+          "type": "string"
+        },
+        "ciPipelineId": {
+          "type": "string"
+        },
+        "ciJobId": {
+          "type": "string"
+        },
+        "ciPullRequest": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "type",
+        "viteVersion",
+        "buildStatus",
+        "moduleCount",
+        "chunkCount",
+        "assetCount",
+        "schemaVersion",
+        "id",
+        "userName",
+        "cpuCount",
+        "hostname",
+        "platform",
+        "os",
+        "timeTaken",
+        "branch",
+        "projectName",
+        "repository",
+        "repositoryName",
+        "timestamp",
+        "builtAt",
+        "nodeVersion",
+        "v8Version",
+        "commitSha",
+        "dirtyFileCount",
+        "customIdentifier",
+        "ci"
+      ]
+    },
+    "ViteBundleStats": {
+      "type": "object",
+      "properties": {
+        "bootstrapChunkSizeBytes": {
+          "type": "number"
+        },
+        "bootstrapChunkSizeLimitBytes": {
+          "type": "number"
+        },
+        "bootstrapChunkGzipSizeBytes": {
+          "type": "number"
+        },
+        "bootstrapChunkBrotliSizeBytes": {
+          "type": "number"
+        },
+        "totalChunkSizeBytes": {
+          "type": "number"
+        },
+        "chunks": {
+          "type": "array",
+          "items": {
+            "$ref": "#/$defs/ViteChunkStats"
+          }
+        }
+      }
+    },
+    "ViteChunkStats": {
+      "type": "object",
+      "properties": {
+        "fileName": {
+          "type": "string"
+        },
+        "isEntry": {
+          "type": "boolean"
+        },
+        "isBootstrap": {
+          "type": "boolean"
+        },
+        "sizeBytes": {
+          "type": "number"
+        },
+        "gzipSizeBytes": {
+          "type": "number"
+        },
+        "brotliSizeBytes": {
+          "type": "number"
+        }
+      },
+      "required": [
+        "fileName",
+        "isEntry",
+        "isBootstrap",
+        "sizeBytes",
+        "gzipSizeBytes",
+        "brotliSizeBytes"
+      ]
+    }
+  }
+};
@@ -1,53 +1,462 @@
 import path from 'path';
-import type { Plugin, ViteDevServer } from 'vite';
+import { version as viteVersion } from 'vite';
+import type { HmrContext, ResolvedConfig, ViteDevServer } from 'vite';
 import type { IncomingMessage, ServerResponse } from 'http';
-import { getCommonMetadata } from './utils/metadata';
-import { sendMetrics } from './utils/metrics';
+import { getCommonMetadata, resolveMetadataProviders } from './utils/metadata';
+import { refreshGitDirtyCount } from './utils/git';
+import { createReporterHub, httpReporter } from './reporters';
+import { createSessionStore, formatSessionSummary } from './utils/session';
+import { onExitSignal } from './utils/signals';
+import { DASHBOARD_API_PATH, DASHBOARD_PATH, dashboardHtml } from './dashboard';
+import { resolveOptions } from './utils/options';
+import { createRedactor } from './utils/privacy';
+import { countBundleOutputs, getBuildErrorInfo } from './utils/build';
+import { collectChunkSources, getBootstrapChunkSize, measureBundle, type ChunkSource } from './utils/bundle-stats';
+import { createStartupTimings, type StartupTimings } from './utils/startup';
+import { readJsonBody, sendJson } from './utils/http';
+import { computeHmrPhases } from './utils/hmr';
+import { getHmrBlastRadius } from './utils/module-graph';
+import { getBrowserFamily, getClientCount, getConnectedClientCount } from './utils/clients';
+import { getNoUpdateReason, takeExpiredEntries } from './utils/no-update';
+import { getFullReloadReason, isConfigFile, setPendingFullReload, takePendingFullReload } from './utils/full-reload';
+import { createErrorTracker, getErrorCategory, type ViteErrorInfo } from './utils/errors';
+import { createPluginProfiler } from './utils/plugin-profiler';
+import { createOptimizerObserver, type OptimizerRun } from './utils/deps-optimization';
+import { CLIENT_ENVIRONMENT, createEnvironmentTracker, getEnvironmentName } from './utils/environments';
+import { createPackageResolver, findWorkspaceRoot, getFileAttribution } from './utils/packages';
+import { validatePayload } from './utils/schema';
+import type {
+ ClientMessage,
+ DevFeedbackOptions,
+ MetricsPayload,
+ DepsOptimizationData,
+ DevServerStartupData,
+ EnvironmentHmrData,
+ PageLoadData,
+ PageLoadMessage,
+ FullReloadData,
+ HmrErrorData,
+ HmrRecoveryData,
+ NoUpdateData,
+ SessionData,
+ TimingEntry,
+ ViteBuildData,
+ ViteTimingPlugin
+} from './types';
 
-interface TimingEntry {
- file: string;
- changeDetectedAt: number;
-}
+export type {
+ DevFeedbackOptions,
+ MetadataProvider,
+ MetricsPayload,
+ Reporter,
+ ReporterContext,
+ ViteTimingPlugin
+} from './types';
+export { callbackReporter, consoleReporter, httpReporter, jsonLinesReporter } from './reporters';
 
-interface ClientMessage {
- file: string;
- clientTimestamp: number;
-}
+// Custom events the client script reports on over the HMR websocket
+const CLIENT_EVENTS = {
+ hmrComplete: 'vite-timing:hmr-complete',
+ pageReady: 'vite-timing:page-ready',
+ overlayShown: 'vite-timing:overlay-shown',
+ pageLoad: 'vite-timing:page-load'
+} as const;
+
+const CLIENT_MODULE_ID = '/@vite-timing/hmr';
+// For pages whose HTML Vite never serves, e.g. rendered by a backend, the
+// app imports the client itself
+const CLIENT_ENTRY_ID = 'virtual:vite-timing/client';
+// What apps importing the client entry get wherever nothing is reported
+const CLIENT_STUB = 'export const markReady = () => {};';
+
+// How long after the load event the client waits for the app to call
+// markReady() before reporting the page load without it
+const PAGE_READY_WAIT_MS = 10_000;
+
+// Slowest files listed in the end-of-session summary
+const SUMMARY_TOP_FILES = 5;
+
+// Slowest plugins attached to HMR and build metrics when profiling plugins
+const TOP_PLUGINS = 5;
 
-export interface ViteTimingPlugin extends Plugin {
- _TEST_getChangeMap?: () => Map<string, TimingEntry>;
+// How long an HMR entry waits for the remaining connected clients to report
+const CLIENT_REPORT_TIMEOUT_MS = 10_000;
+
+// How long a change may wait for its update before it is reported as one
+// that never produced any
+const CHANGE_ENTRY_TTL_MS = 30_000;
+
+// How long after an optimizer run Vite may still reload the page for it
+const OPTIMIZER_RELOAD_WAIT_MS = 2_000;
+
+interface BuildState {
+ startedAt: number;
+ error?: unknown;
+ moduleCount: number;
+ chunkCount: number;
+ assetCount: number;
+ // Chunks of every output bundle, kept apart
+ outputs: ChunkSource[][];
 }
 
-export default function viteTimingPlugin(): ViteTimingPlugin {
+export default function viteTimingPlugin(userOptions: DevFeedbackOptions = {}): ViteTimingPlugin {
+ const options = resolveOptions(userOptions);
+ if (options.disabled) {
+   // Apps importing the client entry must still build after opting out
+   return {
+     name: 'vite-timing-plugin',
+     resolveId(id: string) {
+       return id === CLIENT_ENTRY_ID ? CLIENT_MODULE_ID : undefined;
+     },
+     load(id: string) {
+       return id === CLIENT_MODULE_ID ? CLIENT_STUB : undefined;
+     }
+   };
+ }
+ const reporters = createReporterHub(
+   options.reporters ?? [httpReporter(options)],
+   options.sampleRate,
+   createRedactor(options.privacy)
+ );
+ const session = createSessionStore();
+ let logger: ResolvedConfig['logger'] | null = null;
+ let sessionFinished: Promise<void> | null = null;
+ let removeSignalListeners = () => {};
+ let expiryTimer: ReturnType<typeof setInterval> | null = null;
  const changeMap = new Map<string, TimingEntry>();
+ let isBuild = false;
+ let buildState: BuildState | null = null;
+ let startup: StartupTimings | null = null;
+ let startupReported = false;
+ const errors = createErrorTracker();
+ const environments = createEnvironmentTracker();
+ // Vite 6 reports hot updates per environment through the hotUpdate hook
+ let usesEnvironmentApi = false;
+ let providedMetadata: Record<string, unknown> = {};
+ // Paths are reported relative to the Vite root, which need not be the cwd
+ let root = process.cwd();
+ let base = '/';
+ let workspaceRoot: string | null = null;
+ const packages = createPackageResolver();
+ // A finished optimizer run waits to learn whether it reloads the page
+ let pendingOptimization: { run: OptimizerRun; entry?: TimingEntry; timer: ReturnType<typeof setTimeout> } | null = null;
+ const profiler = options.profilePlugins
+   ? createPluginProfiler(id => (id.startsWith('\0') ? id.slice(1) : getRelativePath(id)))
+   : null;
+
+ const commonMetadata = (timeTaken: number) => {
+   return getCommonMetadata(timeTaken, undefined, { ...options, providedMetadata });
+ };
+
+ // The local dashboard shows every event of the session, sampled out or not
+ const emit = (payload: MetricsPayload, change?: TimingEntry) => {
+   // A payload the schema rejects would be rejected by collectors too
+   const problems = validatePayload(payload);
+   if (problems.length > 0) {
+     const message = `[vite-timing] Dropped invalid ${payload.type} metric: ${problems.join('; ')}`;
+     if (logger) {
+       logger.warn(message);
+     } else {
+       console.warn(message);
+     }
+     return;
+   }
+   session.add(payload, change);
+   reporters.report(payload);
+ };
+
+ // Runs once, from whichever comes first: the server closing or a signal
+ const finishSession = (): Promise<void> => {
+   if (sessionFinished) return sessionFinished;
+   removeSignalListeners();
+   if (expiryTimer) {
+     clearInterval(expiryTimer);
+   }
+   reportOptimization(false);
+
+   const stats = {
+     ...session.getStats(SUMMARY_TOP_FILES),
+     ...(profiler && { pluginTimings: profiler.getTimings() })
+   };
+   if (options.printSessionSummary && logger) {
+     logger.info(formatSessionSummary(stats).join('\n'));
+   }
+
+   const sessionData: SessionData = {
+     ...commonMetadata(stats.hmr.total + stats.fullReloads.total),
+     type: 'session',
+     sessionDuration: stats.duration,
+     hmrCount: stats.hmr.count,
+     hmrTotalTime: stats.hmr.total,
+     hmrP50: stats.hmr.p50,
+     hmrP95: stats.hmr.p95,
+     hmrMax: stats.hmr.max,
+     fullReloadCount: stats.fullReloads.count,
+     fullReloadTotalTime: stats.fullReloads.total,
+     slowestFiles: stats.slowestFiles,
+     ...(stats.pluginTimings && { pluginTimings: stats.pluginTimings })
+   };
+   emit(sessionData);
+
+   sessionFinished = reporters.flush();
+   return sessionFinished;
+ };
 
  const normalizePath = (filePath: string): string => {
    return filePath.replace(/\\/g, '/').replace(/^\/+/, '');
  };
 
+ const getRelativePath = (file: string): string => {
+   return normalizePath(path.relative(root, file.split('?')[0]));
+ };
+
+ // Update paths from the client are URLs: root-relative, or /@fs/ followed
+ // by the absolute path for files outside the root
+ const getClientFilePath = (url: string): string => {
+   return url.startsWith('/@fs/') ? getRelativePath(url.slice('/@fs'.length)) : normalizePath(url.split('?')[0]);
+ };
+
+ const recordServerInvalidation = (file: string, timestamp: number, environment?: string) => {
+   const relativePath = getRelativePath(file);
+   const entry = changeMap.get(relativePath);
+   environments.recordInvalidation(relativePath, entry?.changeDetectedAt ?? timestamp, Date.now(), environment);
+   // No browser will report on a module only the server loads
+   if (entry && environments.isServerOnly(relativePath)) {
+     changeMap.delete(relativePath);
+   }
+ };
+
+ // Vite 6 calls hotUpdate once per environment; kept apart from the plugin
+ // object because older Vite types don't know the hook
+ const environmentHooks = {
+   hotUpdate(this: unknown, { file, timestamp }: { file: string; timestamp: number }) {
+     const environment = getEnvironmentName(this);
+     if (environment !== CLIENT_ENVIRONMENT) {
+       recordServerInvalidation(file, timestamp, environment);
+     }
+   }
+ };
+
+ const reportOptimization = (forcedReload: boolean) => {
+   if (!pendingOptimization) return;
+   const { run, entry, timer } = pendingOptimization;
+   pendingOptimization = null;
+   clearTimeout(timer);
+
+   const depsOptimizationData: DepsOptimizationData = {
+     ...commonMetadata(run.finishedAt - run.startedAt),
+     type: 'deps-optimization',
+     kind: run.kind,
+     status: run.failed ? 'failure' : 'success',
+     dependencyCount: run.dependencies.length,
+     newDependencies: run.newDependencies,
+     scanTime: run.scanTime,
+     forcedReload,
+     file: entry?.file ?? null
+   };
+   emit(depsOptimizationData);
+ };
+
+ const optimizerObserver = createOptimizerObserver(run => {
+   reportOptimization(false);
+   // New imports are discovered while transforming, most likely those of
+   // the latest edit
+   const entry = run.kind === 're-optimization'
+     ? Array.from(changeMap.values()).filter(change => change.changeDetectedAt <= run.startedAt).pop()
+     : undefined;
+   const timer = setTimeout(() => reportOptimization(false), OPTIMIZER_RELOAD_WAIT_MS);
+   timer.unref();
+   pendingOptimization = { run, entry, timer };
+ });
+
+ const reportError = (error: ViteErrorInfo) => {
+   const failedAt = Date.now();
+   // Errors from the HMR pipeline itself carry no module id, so blame the
+   // most recent change
+   const file = error.id
+     ? getRelativePath(error.id)
+     : Array.from(changeMap.keys()).pop() ?? null;
+   const entry = file ? changeMap.get(file) : undefined;
+   if (file) {
+     errors.recordError(file, error, failedAt);
+   }
+   // The change is accounted for, no update will follow
+   if (entry) {
+     changeMap.delete(entry.file);
+   }
+
+   const errorData: HmrErrorData = {
+     ...commonMetadata(entry ? failedAt - entry.changeDetectedAt : 0),
+     type: 'hmr-error',
+     file,
+     plugin: error.plugin ?? null,
+     category: getErrorCategory(error)
+   };
+   emit(errorData);
+ };
+
+ // The first successful update or reload after a file failed ends its
+ // broken state
+ const reportRecovery = (file: string, recoveredAt: number) => {
+   const broken = errors.recover(file);
+   if (!broken) return;
+
+   const recoveryData: HmrRecoveryData = {
+     ...commonMetadata(recoveredAt - broken.failedAt),
+     type: 'hmr-recovery',
+     file,
+     plugin: broken.plugin,
+     category: broken.category,
+     errorCount: broken.errorCount,
+     overlayTime: broken.overlayShownAt === undefined ? null : recoveredAt - broken.overlayShownAt
+   };
+   emit(recoveryData);
+ };
+
  const clientScript = {
+   // Reports over the HMR websocket, which works wherever HMR itself does:
+   // behind proxies, under a `base` path and on pages served by a backend.
+   // The HTTP routes are only used when HMR is off.
    virtualHmrModule: `
-     import { createHotContext as __vite__createHotContext } from '/@vite/client';
+     const hot = import.meta.hot;
+
+     // The default of 250 entries is far too few for an unbundled app
+     if (performance.setResourceTimingBufferSize) {
+       performance.setResourceTimingBufferSize(100000);
+     }
+
+     // Stable per tab, so every browser reporting the same update is told apart
+     const clientId = (() => {
+       const createId = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+       try {
+         let id = sessionStorage.getItem('__vite_timing_client_id');
+         if (!id) {
+           id = createId();
+           sessionStorage.setItem('__vite_timing_client_id', id);
+         }
+         return id;
+       } catch {
+         return createId();
+       }
+     })();
+
+     const report = (event, route, data) => {
+       if (hot) {
+         hot.send(event, data);
+         return;
+       }
+       fetch(new URL(import.meta.env.BASE_URL + route, import.meta.url), {
+         method: 'POST',
+         headers: { 'Content-Type': 'application/json',
+            // Add this header to suppress the console logs
+            'X-Requested-With': 'XMLHttpRequest',
+            'X-Silent': 'true' },
+         body: JSON.stringify(data)
+       }).catch(err => console.error('[vite-timing] Failed to send metrics:', err));
+     };
+
+     const reportPageReady = () => {
+       report('${CLIENT_EVENTS.pageReady}', '__vite_timing_page_ready', { clientTimestamp: Date.now() });
+     };
 
-     const hot = __vite__createHotContext('/@vite-timing/hmr');
+     if (document.readyState === 'complete') {
+       reportPageReady();
+     } else {
+       window.addEventListener('load', reportPageReady, { once: true });
+     }
+
+     let readyTime = null;
+     let pageLoadReported = false;
+
+     const reportPageLoad = () => {
+       if (pageLoadReported) return;
+       pageLoadReported = true;
+       const navigation = performance.getEntriesByType('navigation')[0];
+       const paint = performance.getEntriesByName('first-contentful-paint')[0];
+       const modules = performance.getEntriesByType('resource').filter(entry =>
+         ['script', 'link', 'other'].includes(entry.initiatorType) &&
+         new URL(entry.name).origin === location.origin
+       );
+       report('${CLIENT_EVENTS.pageLoad}', '__vite_timing_page_load', {
+         page: location.pathname,
+         responseStart: navigation ? navigation.responseStart : null,
+         domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : null,
+         loadEvent: navigation ? navigation.loadEventEnd : null,
+         firstContentfulPaint: paint ? paint.startTime : null,
+         readyTime,
+         moduleRequestCount: modules.length,
+         moduleTransferTime: modules.reduce((sum, entry) => sum + entry.duration, 0),
+         moduleWaterfallTime: modules.reduce((end, entry) => Math.max(end, entry.responseEnd), 0),
+         clientId,
+         userAgent: navigator.userAgent
+       });
+     };
+
+     // Lets the app say when it's usable, e.g. after its first data fetch:
+     // import { markReady } from '${CLIENT_ENTRY_ID}'
+     export const markReady = () => {
+       if (readyTime === null) {
+         readyTime = performance.now();
+       }
+       if (document.readyState === 'complete') {
+         reportPageLoad();
+       }
+     };
+
+     const onPageLoaded = () => {
+       // loadEventEnd is only set once the load handlers have run
+       setTimeout(() => {
+         if (readyTime === null) {
+           setTimeout(reportPageLoad, ${PAGE_READY_WAIT_MS});
+         } else {
+           reportPageLoad();
+         }
+       }, 0);
+       // A reload during the wait would lose the report otherwise
+       window.addEventListener('pagehide', reportPageLoad, { once: true });
+     };
+
+     if (document.readyState === 'complete') {
+       onPageLoaded();
+     } else {
+       window.addEventListener('load', onPageLoaded, { once: true });
+     }
 
      if (hot) {
+       const beforeUpdateTimes = new Map();
+
+       hot.on('vite:error', (payload) => {
+         report('${CLIENT_EVENTS.overlayShown}', '__vite_timing_hmr_error', {
+           file: payload.err && payload.err.id,
+           clientTimestamp: Date.now()
+         });
+       });
+
+       hot.on('vite:beforeUpdate', (data) => {
+         if (Array.isArray(data.updates)) {
+           const startTime = Date.now();
+           data.updates.forEach(update => {
+             if (update.path) {
+               beforeUpdateTimes.set(update.path, startTime);
+             }
+           });
+         }
+       });
+
        hot.on('vite:afterUpdate', (data) => {
          if (Array.isArray(data.updates)) {
            data.updates.forEach(update => {
              if (update.path) {
                const endTime = Date.now();
-               fetch('/__vite_timing_hmr_complete', {
-                 method: 'POST',
-                 headers: { 'Content-Type': 'application/json',
-                    // Add this header to suppress the console logs
-                    'X-Requested-With': 'XMLHttpRequest',
-                    'X-Silent': 'true' },
-                 body: JSON.stringify({ 
-                   file: update.path,
-                   clientTimestamp: endTime 
-                 })
-               }).catch(err => console.error('[vite-timing] Failed to send metrics:', err));
+               const beforeUpdateTimestamp = beforeUpdateTimes.get(update.path);
+               beforeUpdateTimes.delete(update.path);
+               report('${CLIENT_EVENTS.hmrComplete}', '__vite_timing_hmr_complete', {
+                 file: update.path,
+                 clientTimestamp: endTime,
+                 beforeUpdateTimestamp,
+                 clientId,
+                 userAgent: navigator.userAgent
+               });
              }
            });
          }
@@ -58,98 +467,510 @@ export default function viteTimingPlugin(): ViteTimingPlugin {
 
  const plugin: ViteTimingPlugin = {
    name: 'vite-timing-plugin',
+
+   config(_config, env) {
+     if (env.command === 'serve') {
+       return { optimizeDeps: { esbuildOptions: { plugins: [optimizerObserver] } } };
+     }
+   },
+
+   async configResolved(config: ResolvedConfig) {
+     isBuild = config.command === 'build';
+     logger = config.logger;
+     root = config.root ?? root;
+     base = config.base ?? base;
+     reporters.setup({
+       command: config.command,
+       root: config.root,
+       cacheDir: config.cacheDir,
+       logger: config.logger
+     });
+     if (!isBuild) {
+       startup = createStartupTimings(config.cacheDir);
+     }
+     profiler?.wrapPlugins(config.plugins, plugin.name);
+     providedMetadata = await resolveMetadataProviders(options.metadataProviders, (error) => {
+       config.logger.warn(`[vite-timing] Metadata provider failed: ${error instanceof Error ? error.message : String(error)}`);
+     });
+   },
+
+   buildStart() {
+     if (!isBuild) return;
+     profiler?.reset();
+     buildState = {
+       startedAt: Date.now(),
+       moduleCount: 0,
+       chunkCount: 0,
+       assetCount: 0,
+       outputs: []
+     };
+   },
+
+   buildEnd(error?: Error) {
+     if (!buildState) return;
+     buildState.moduleCount = Array.from(this.getModuleIds()).length;
+     if (error) {
+       buildState.error = error;
+     }
+   },
+
+   renderError(error?: Error) {
+     if (buildState && error) {
+       buildState.error = error;
+     }
+   },
+
+   generateBundle(_outputOptions, bundle) {
+     if (!buildState) return;
+     const sources = collectChunkSources(bundle);
+     buildState.outputs.push(sources);
+
+     // Checked per output, each of which has its own bootstrap chunks
+     const limit = options.bootstrapChunkSizeLimitBytes;
+     const size = getBootstrapChunkSize(sources);
+     if (limit !== undefined && size > limit) {
+       const message = `Bootstrap chunks are ${size} bytes, exceeding the limit of ${limit} bytes`;
+       if (options.bootstrapChunkSizeLimitAction === 'error') {
+         this.error(message);
+       } else {
+         this.warn(message);
+       }
+     }
+   },
+
+   // Counted once the bundle is written: plugins like Vite's own HTML plugin
+   // still add assets after our generateBundle
+   writeBundle(_outputOptions, bundle) {
+     if (!buildState) return;
+     // Multiple outputs (e.g. es + cjs library builds) accumulate into one build
+     const { chunkCount, assetCount } = countBundleOutputs(bundle);
+     buildState.chunkCount += chunkCount;
+     buildState.assetCount += assetCount;
+   },
+
+   async closeBundle() {
+     // Also runs when the dev server closes, the last chance to deliver
+     if (!buildState) {
+       await (isBuild ? reporters.flush() : finishSession());
+       return;
+     }
+     const state = buildState;
+     buildState = null;
+
+     const totalTime = Date.now() - state.startedAt;
+     const bundleStats = state.outputs.length > 0 ? measureBundle(state.outputs) : undefined;
+     const buildData: ViteBuildData = {
+       ...commonMetadata(totalTime),
+       type: 'vite',
+       viteVersion: viteVersion ?? null,
+       buildStatus: state.error ? 'failure' : 'success',
+       ...(state.error ? getBuildErrorInfo(state.error) : {}),
+       moduleCount: state.moduleCount,
+       chunkCount: state.chunkCount,
+       assetCount: state.assetCount,
+       ...(bundleStats && {
+         bundleStats: {
+           ...bundleStats,
+           bootstrapChunkSizeLimitBytes: options.bootstrapChunkSizeLimitBytes
+         }
+       }),
+       ...(profiler && { slowestPlugins: profiler.getTimings().slice(0, TOP_PLUGINS) })
+     };
+
+     emit(buildData);
+     await reporters.flush();
+   },
    
    configureServer(server: ViteDevServer) {
+     root = server.config.root ?? root;
+     usesEnvironmentApi = 'environments' in server;
+
+     // Ctrl+C ends the process without closing the server, so the summary
+     // has to be written from the signal itself
+     removeSignalListeners = onExitSignal(finishSession);
+
+     // Changes outside the module graph, or made with no browser open, would
+     // otherwise wait for a client report forever
+     expiryTimer = setInterval(() => {
+       const now = Date.now();
+       const clientCount = getClientCount(server);
+       environments.expire(now, CHANGE_ENTRY_TTL_MS);
+       takeExpiredEntries(changeMap, now, CHANGE_ENTRY_TTL_MS).forEach(entry => {
+         const noUpdateData: NoUpdateData = {
+           ...commonMetadata(now - entry.changeDetectedAt),
+           type: 'no-update',
+           file: entry.file,
+           reason: getNoUpdateReason(entry, clientCount)
+         };
+         emit(noUpdateData);
+       });
+     }, CHANGE_ENTRY_TTL_MS / 2);
+     expiryTimer.unref();
+
+     if (startup) {
+       const timings = startup;
+       timings.configureServerAt = Date.now();
+       server.httpServer?.once('listening', () => {
+         timings.serverListeningAt = Date.now();
+       });
+     }
+
+     // Stamp the moment the update payload leaves the server for every change
+     // that has been through handleHotUpdate but not been sent yet
+     const getUnsentEntries = () =>
+       Array.from(changeMap.values()).filter(
+         entry => entry.hotUpdateAt !== undefined && entry.updateSentAt === undefined
+       );
+
+     const originalSend = server.ws.send.bind(server.ws) as (...args: unknown[]) => void;
+     server.ws.send = ((...args: unknown[]) => {
+       const payload = args[0] as {
+         type?: string;
+         triggeredBy?: string;
+         err?: ViteErrorInfo;
+         updates?: Array<{ path: string; timestamp?: number }>;
+       } | string;
+       if (typeof payload === 'object' && payload.type === 'update') {
+         const sentAt = Date.now();
+         const clientCount = getConnectedClientCount(server);
+         const updates = payload.updates ?? [];
+         // Updates carry the timestamp of the change they're for; without a
+         // match, e.g. from a plugin's own update, they go to every change
+         const unsent = getUnsentEntries();
+         const matched = unsent.filter(entry => updates.some(update => update.timestamp === entry.hotUpdateTimestamp));
+         (matched.length > 0 ? matched : unsent).forEach(entry => {
+           entry.updateSentAt = sentAt;
+           entry.expectedClientCount = clientCount;
+           entry.boundaryFiles = updates
+             .filter(update => matched.length === 0 || update.timestamp === entry.hotUpdateTimestamp)
+             .map(update => getClientFilePath(update.path));
+         });
+       } else if (typeof payload === 'object' && payload.type === 'full-reload' && !payload.triggeredBy && pendingOptimization) {
+         // The optimizer reloads pages whose dependencies it had to re-bundle
+         const { run, entry } = pendingOptimization;
+         setPendingFullReload({
+           file: entry?.file ?? null,
+           reason: 'dep-optimization',
+           changeDetectedAt: entry?.changeDetectedAt ?? run.startedAt,
+           reloadSentAt: Date.now()
+         });
+         if (entry) {
+           changeMap.delete(entry.file);
+         }
+         reportOptimization(true);
+       } else if (typeof payload === 'object' && payload.type === 'full-reload') {
+         const sentAt = Date.now();
+         // The triggering file may have no entry any more, e.g. a module only
+         // the server loads, whose entry went once it was invalidated
+         const triggeredBy = payload.triggeredBy ? getRelativePath(payload.triggeredBy) : null;
+         const entry = triggeredBy ? changeMap.get(triggeredBy) : getUnsentEntries().pop();
+         const file = triggeredBy ?? entry?.file ?? null;
+
+         setPendingFullReload({
+           file,
+           reason: getFullReloadReason(file),
+           changeDetectedAt: entry?.changeDetectedAt ?? sentAt,
+           reloadSentAt: sentAt
+         });
+         if (entry) {
+           changeMap.delete(entry.file);
+         }
+       } else if (typeof payload === 'object' && payload.type === 'error') {
+         // Transform and HMR failures, i.e. whatever shows the error overlay
+         reportError(payload.err ?? {});
+       }
+       originalSend(...args);
+     }) as ViteDevServer['ws']['send'];
+
      server.watcher.on('change', (file: string) => {
        const timestamp = Date.now();
-       const relativePath = normalizePath(path.relative(process.cwd(), file));
+       const relativePath = getRelativePath(file);
        
        changeMap.set(relativePath, {
          file: relativePath,
          changeDetectedAt: timestamp
        });
+       refreshGitDirtyCount();
+
+       // Config changes restart the server and reload the page without a
+       // full-reload payload ever being sent
+       if (isConfigFile(file, server.config)) {
+         setPendingFullReload({
+           file: relativePath,
+           reason: 'config-change',
+           changeDetectedAt: timestamp
+         });
+       }
      });
 
+     const handleHmrComplete = (message: ClientMessage): Record<string, unknown> => {
+       const { file, clientTimestamp } = message;
+       const clientId = message.clientId ?? 'unknown';
+       const normalizedFile = getClientFilePath(file);
+
+       // Clients report an update under the module that accepted it, which
+       // for a file without its own accept handler is one of its importers
+       const entry = changeMap.get(normalizedFile) ??
+         Array.from(changeMap.values()).reverse().find(change => change.boundaryFiles?.includes(normalizedFile));
+
+       if (entry && entry.reportedClientIds?.has(clientId)) {
+         return {
+           success: false,
+           reason: 'Already reported for this client',
+           file: normalizedFile
+         };
+       }
+       if (!entry) {
+         return {
+           success: false,
+           reason: 'No timing entry found for file',
+           file: normalizedFile,
+           availableFiles: Array.from(changeMap.keys())
+         };
+       }
+
+       const totalTime = clientTimestamp - entry.changeDetectedAt;
+
+       // Prepare metrics data
+       const metricsData = {
+         ...commonMetadata(totalTime),
+         type: 'hmr' as const,
+         file: entry.file,
+         moduleCount: entry.moduleCount,
+         hmrBoundaryCount: entry.hmrBoundaryCount,
+         importerChainDepth: entry.importerChainDepth,
+         phases: computeHmrPhases(entry, message),
+         clientId,
+         browserFamily: getBrowserFamily(message.userAgent),
+         ...getFileAttribution(
+           path.resolve(root, entry.file),
+           root,
+           workspaceRoot ??= findWorkspaceRoot(root),
+           packages
+         ),
+         ...(profiler && {
+           slowestPlugins: profiler
+             .getTimings({ from: entry.changeDetectedAt, to: clientTimestamp })
+             .slice(0, TOP_PLUGINS)
+         })
+       };
+
+       const reportedClientIds = entry.reportedClientIds ?? new Set<string>();
+       reportedClientIds.add(clientId);
+       entry.reportedClientIds = reportedClientIds;
+
+       // Keep the entry until every connected client reported, or the
+       // slowest ones gave up; a newer change replaces the entry
+       const expectedClientCount = entry.expectedClientCount ?? getConnectedClientCount(server);
+       if (reportedClientIds.size >= expectedClientCount) {
+         changeMap.delete(entry.file);
+       } else if (reportedClientIds.size === 1) {
+         setTimeout(() => {
+           if (changeMap.get(entry.file) === entry) {
+             changeMap.delete(entry.file);
+           }
+         }, CLIENT_REPORT_TIMEOUT_MS).unref();
+       }
+
+       // Every tab reports the same update; the session counts the slowest
+       emit(metricsData, entry);
+       reportRecovery(entry.file, clientTimestamp);
+       return { success: true };
+     };
+
+     const handlePageReady = ({ clientTimestamp }: { clientTimestamp: number }): Record<string, unknown> => {
+       const fullReload = takePendingFullReload(Date.now(), CHANGE_ENTRY_TTL_MS);
+       if (fullReload) {
+         const fullReloadData: FullReloadData = {
+           ...commonMetadata(clientTimestamp - fullReload.changeDetectedAt),
+           type: 'full-reload',
+           file: fullReload.file,
+           reason: fullReload.reason,
+           reloadSentTime: fullReload.reloadSentAt === undefined
+             ? null
+             : fullReload.reloadSentAt - fullReload.changeDetectedAt
+         };
+         emit(fullReloadData);
+         if (fullReload.file) {
+           reportRecovery(fullReload.file, clientTimestamp);
+         }
+       }
+
+       // Only the first page load after start-up is a start-up metric
+       if (!startup || startupReported) {
+         return { success: fullReload !== null };
+       }
+       startupReported = true;
+       const timings = startup;
+
+       const sinceStart = (timestamp?: number) =>
+         timestamp === undefined ? null : timestamp - timings.startedAt;
+
+       const startupData: DevServerStartupData = {
+         ...commonMetadata(clientTimestamp - timings.startedAt),
+         type: 'dev-server-startup',
+         viteVersion: viteVersion ?? null,
+         isColdStart: timings.isColdStart,
+         isRestart: timings.isRestart,
+         configureServerTime: sinceStart(timings.configureServerAt),
+         serverListeningTime: sinceStart(timings.serverListeningAt),
+         firstHtmlServedTime: sinceStart(timings.firstHtmlServedAt)
+       };
+
+       emit(startupData);
+       return { success: true };
+     };
+
+     const handleOverlayShown = ({ file, clientTimestamp }: { file?: string; clientTimestamp: number }): Record<string, unknown> => {
+       if (file) {
+         errors.recordOverlayShown(getRelativePath(file), clientTimestamp);
+       }
+       return { success: Boolean(file) };
+     };
+
+     const handlePageLoad = (message: PageLoadMessage): Record<string, unknown> => {
+       const round = (value: number | null) => (typeof value === 'number' ? Math.round(value) : null);
+       const readyTime = round(message.readyTime);
+       const loadEventTime = round(message.loadEvent);
+
+       const pageLoadData: PageLoadData = {
+         ...commonMetadata(readyTime ?? loadEventTime ?? 0),
+         type: 'page-load',
+         page: message.page,
+         responseStartTime: round(message.responseStart),
+         domContentLoadedTime: round(message.domContentLoaded),
+         loadEventTime,
+         firstContentfulPaintTime: round(message.firstContentfulPaint),
+         readyTime,
+         moduleRequestCount: message.moduleRequestCount,
+         moduleTransferTime: Math.round(message.moduleTransferTime),
+         moduleWaterfallTime: Math.round(message.moduleWaterfallTime),
+         clientId: message.clientId ?? 'unknown',
+         browserFamily: getBrowserFamily(message.userAgent)
+       };
+       emit(pageLoadData);
+       return { success: true };
+     };
+
+     const clientHandlers: Record<string, (data: unknown) => Record<string, unknown>> = {
+       [CLIENT_EVENTS.hmrComplete]: (data) => handleHmrComplete(data as ClientMessage),
+       [CLIENT_EVENTS.pageReady]: (data) => handlePageReady(data as { clientTimestamp: number }),
+       [CLIENT_EVENTS.overlayShown]: (data) => handleOverlayShown(data as { file?: string; clientTimestamp: number }),
+       [CLIENT_EVENTS.pageLoad]: (data) => handlePageLoad(data as PageLoadMessage)
+     };
+     Object.entries(clientHandlers).forEach(([event, handler]) => {
+       server.ws.on(event, (data: unknown) => {
+         try {
+           handler(data);
+         } catch (err) {
+           console.error('[vite-timing] Error processing timing data:', err);
+         }
+       });
+     });
+
+     // Fallback for clients without HMR, which can't use the websocket
+     const clientRoutes: Record<string, (data: unknown) => Record<string, unknown>> = {
+       '/__vite_timing_hmr_complete': clientHandlers[CLIENT_EVENTS.hmrComplete],
+       '/__vite_timing_page_ready': clientHandlers[CLIENT_EVENTS.pageReady],
+       '/__vite_timing_hmr_error': clientHandlers[CLIENT_EVENTS.overlayShown],
+       '/__vite_timing_page_load': clientHandlers[CLIENT_EVENTS.pageLoad]
+     };
+
+     // Our middleware runs before Vite's own, which strips the base path
+     base = server.config.base ?? base;
+     const stripBase = (url?: string) =>
+       url && base !== '/' && url.startsWith(base) ? `/${url.slice(base.length)}` : url;
+
      server.middlewares.use((req: IncomingMessage, res: ServerResponse, next) => {
-       if (req.url === '/__vite_timing_hmr_complete') {
-         let body = '';
-         req.on('data', chunk => { body += chunk.toString(); });
-         // eslint-disable-next-line @typescript-eslint/no-misused-promises
-         req.on('end', async () => {
-           try {
-             const { file, clientTimestamp } = JSON.parse(body) as ClientMessage;
-             const normalizedFile = normalizePath(file);
-             
-             const entry = changeMap.get(normalizedFile);
-
-             if (entry) {
-               const totalTime = clientTimestamp - entry.changeDetectedAt;
-               
-               // Prepare metrics data
-               const metricsData = {
-                 ...getCommonMetadata(totalTime),
-                 type: 'hmr' as const,
-                 file: entry.file
-               };
-
-               await sendMetrics(metricsData);
-               
-               // Clear the entry
-               changeMap.delete(normalizedFile);
-               
-               res.writeHead(200, { 'Content-Type': 'application/json' });
-               res.end(JSON.stringify({ success: true }));
-             } else {
-               
-               res.writeHead(200, { 'Content-Type': 'application/json' });
-               res.end(JSON.stringify({ 
-                 success: false, 
-                 reason: 'No timing entry found for file',
-                 file: normalizedFile,
-                 availableFiles: Array.from(changeMap.keys())
-               }));
-             }
-           } catch (err) {
+       const url = stripBase(req.url);
+       const clientRoute = url ? clientRoutes[url] : undefined;
+       if (clientRoute) {
+         readJsonBody<Record<string, unknown>>(req)
+           .then((data) => {
+             sendJson(res, clientRoute({ userAgent: req.headers['user-agent'], ...data }));
+           })
+           .catch((err: unknown) => {
              console.error('[vite-timing] Error processing timing data:', err);
-             res.writeHead(200, { 'Content-Type': 'application/json' });
-             res.end(JSON.stringify({ 
-               success: false, 
-               error: err instanceof Error ? err.message : 'Unknown error' 
-             }));
-           }
-         });
+             sendJson(res, {
+               success: false,
+               error: err instanceof Error ? err.message : 'Unknown error'
+             });
+           });
+       } else if (url === DASHBOARD_PATH || url === `${DASHBOARD_PATH}/`) {
+         res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+         res.end(dashboardHtml);
+       } else if (url === DASHBOARD_API_PATH) {
+         sendJson(res, { stats: session.getStats(), events: session.getEvents() });
        } else {
          next();
        }
      });
    },
 
+   handleHotUpdate(ctx: HmrContext) {
+     const relativePath = getRelativePath(ctx.file);
+     const entry = changeMap.get(relativePath);
+     if (entry) {
+       entry.hotUpdateAt = Date.now();
+       entry.hotUpdateTimestamp = ctx.timestamp;
+       entry.updateSentAt = undefined;
+       entry.boundaryFiles = undefined;
+       Object.assign(entry, getHmrBlastRadius(ctx.modules));
+     }
+     if (!usesEnvironmentApi) {
+       recordServerInvalidation(ctx.file, ctx.timestamp);
+     }
+   },
+
+   transform(_code: string, id: string, transformOptions?: { ssr?: boolean }) {
+     if (isBuild || id.startsWith('\0')) return;
+     const update = environments.recordTransform(getRelativePath(id), getEnvironmentName(this, transformOptions?.ssr));
+     if (!update) return;
+
+     const now = Date.now();
+     const environmentHmrData: EnvironmentHmrData = {
+       ...commonMetadata(now - update.changeDetectedAt),
+       type: 'environment-hmr',
+       environment: update.environment,
+       file: update.file,
+       invalidationTime: update.invalidatedAt - update.changeDetectedAt
+     };
+     emit(environmentHmrData);
+   },
+
    resolveId(id: string) {
-     if (id === '/@vite-timing/hmr') {
-       return id;
+     if (id === CLIENT_MODULE_ID || id === CLIENT_ENTRY_ID) {
+       return CLIENT_MODULE_ID;
      }
    },
 
    load(id: string) {
-     if (id === '/@vite-timing/hmr') {
-       return clientScript.virtualHmrModule;
+     if (id === CLIENT_MODULE_ID) {
+       // Imports of the client entry stay in the app, but do nothing in builds
+       return isBuild ? CLIENT_STUB : clientScript.virtualHmrModule;
      }
    },
    
    transformIndexHtml(html: string, ctx?: { [key: string]: any }) {
      if (!ctx || ctx.command !== 'build') {
+       if (startup && startup.firstHtmlServedAt === undefined) {
+         startup.firstHtmlServedAt = Date.now();
+       }
        // Import our virtual HMR module
        html = html.replace(
          '</head>',
-         `<script type="module" src="/@vite-timing/hmr"></script></head>`
+         `<script type="module" src="${base}${CLIENT_MODULE_ID.slice(1)}"></script></head>`
        );
      }
      return html;
-   }
+   },
+
+   ...environmentHooks
  };
 
  if (process.env.NODE_ENV === 'test') {
    plugin._TEST_getChangeMap = () => changeMap;
+   plugin._TEST_flushMetrics = () => reporters.flush();
  }
 
  return plugin;
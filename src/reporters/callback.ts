@@ -0,0 +1,23 @@
+import type { MetricsPayload, Reporter } from '../types';
+
+export const callbackReporter = (
+  callback: (payload: MetricsPayload) => void | Promise<void>
+): Reporter => {
+  const pending = new Set<Promise<void>>();
+
+  return {
+    name: 'callback',
+    report(payload) {
+      const result = Promise.resolve()
+        .then(() => callback(payload))
+        .catch((error: unknown) => {
+          console.error('[vite-timing] Error in metrics callback:', error);
+        })
+        .finally(() => pending.delete(result));
+      pending.add(result);
+    },
+    async flush() {
+      await Promise.all(pending);
+    },
+  };
+};
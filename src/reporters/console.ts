@@ -0,0 +1,55 @@
+import type { MetricsPayload, Reporter, ReporterContext } from '../types';
+import { formatDuration } from '../utils/format';
+
+export const formatPayload = (payload: MetricsPayload): string => {
+  const time = formatDuration(payload.timeTaken);
+
+  switch (payload.type) {
+    case 'hmr': {
+      const details = [
+        payload.moduleCount !== undefined ? `${payload.moduleCount} modules` : null,
+        payload.browserFamily ?? null,
+      ].filter(Boolean);
+      return `hmr ${payload.file} ${time}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+    }
+    case 'full-reload':
+      return `full reload ${payload.file ?? '*'} ${time} (${payload.reason})`;
+    case 'hmr-error':
+      return `hmr error ${payload.file ?? '*'} (${payload.category}${payload.plugin ? `, ${payload.plugin}` : ''})`;
+    case 'hmr-recovery':
+      return `hmr recovered ${payload.file} after ${time} (${payload.errorCount} errors)`;
+    case 'no-update':
+      return `no update for ${payload.file} after ${time} (${payload.reason})`;
+    case 'environment-hmr':
+      return `${payload.environment} hmr ${payload.file} ${time}`;
+    case 'page-load':
+      return `page load ${payload.page} ${time} (${payload.moduleRequestCount} modules)`;
+    case 'deps-optimization':
+      return `${payload.kind} dependency optimization ${payload.status} ${time} (${payload.dependencyCount} deps${payload.forcedReload ? ', reloaded' : ''})`;
+    case 'vite':
+      return `build ${payload.buildStatus} ${time} (${payload.moduleCount} modules, ${payload.chunkCount} chunks)`;
+    case 'dev-server-startup':
+      return `dev server ready ${time} (${payload.isColdStart ? 'cold' : 'warm'} start)`;
+    case 'session':
+      return `session ended after ${formatDuration(payload.sessionDuration)}, ${time} spent waiting (${payload.hmrCount} HMR updates, ${payload.fullReloadCount} full reloads)`;
+  }
+};
+
+export const consoleReporter = (): Reporter => {
+  let logger: ReporterContext['logger'] | null = null;
+
+  return {
+    name: 'console',
+    setup(context) {
+      logger = context.logger;
+    },
+    report(payload) {
+      const line = `[vite-timing] ${formatPayload(payload)}`;
+      if (logger) {
+        logger.info(line, { timestamp: true });
+      } else {
+        process.stdout.write(line + '\n');
+      }
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import type { DevFeedbackOptions, Reporter } from '../types';
+import { createMetricsQueue, getSpoolFile } from '../utils/metrics-queue';
+
+export type HttpReporterOptions = Pick<
+  DevFeedbackOptions,
+  'endpoint' | 'flushIntervalMs' | 'maxBatchSize' | 'maxRetries'
+>;
+
+export const httpReporter = (options: HttpReporterOptions = {}): Reporter => {
+  const queue = createMetricsQueue({
+    endpoint: options.endpoint,
+    flushIntervalMs: options.flushIntervalMs ?? 1000,
+    maxBatchSize: options.maxBatchSize ?? 20,
+    maxRetries: options.maxRetries ?? 3,
+  });
+
+  return {
+    name: 'http',
+    setup(context) {
+      queue.attachSpool(getSpoolFile(context.cacheDir));
+    },
+    report(payload) {
+      queue.enqueue(payload);
+    },
+    flush() {
+      return queue.drain();
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import type { MetricsPayload, Reporter, ReporterContext } from '../types';
+import { shouldSample } from '../utils/options';
+
+export { httpReporter } from './http';
+export { jsonLinesReporter } from './json-lines';
+export { consoleReporter } from './console';
+export { callbackReporter } from './callback';
+
+export interface ReporterHub {
+  setup: (context: ReporterContext) => void;
+  report: (payload: MetricsPayload) => void;
+  flush: () => Promise<void>;
+}
+
+// Fans every sampled payload out to all reporters, after redacting it; one
+// failing reporter never keeps the others from receiving it
+export const createReporterHub = (
+  reporters: Reporter[],
+  sampleRate: number,
+  redact: (payload: MetricsPayload) => MetricsPayload = (payload) => payload
+): ReporterHub => {
+  const forEachReporter = (action: (reporter: Reporter) => void | Promise<void>) => {
+    for (const reporter of reporters) {
+      try {
+        const result = action(reporter);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => {
+            console.error(`[vite-timing] Error in ${reporter.name} reporter:`, error);
+          });
+        }
+      } catch (error) {
+        console.error(`[vite-timing] Error in ${reporter.name} reporter:`, error);
+      }
+    }
+  };
+
+  return {
+    setup(context) {
+      forEachReporter((reporter) => reporter.setup?.(context));
+    },
+    report(payload) {
+      if (!shouldSample(sampleRate)) {
+        return;
+      }
+      const redacted = redact(payload);
+      forEachReporter((reporter) => reporter.report(redacted));
+    },
+    async flush() {
+      await Promise.all(
+        reporters.map((reporter) =>
+          reporter.flush?.().catch((error: unknown) => {
+            console.error(`[vite-timing] Error in ${reporter.name} reporter:`, error);
+          })
+        )
+      );
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import type { Reporter } from '../types';
+
+export interface JsonLinesReporterOptions {
+  // Relative paths resolve against the Vite root; defaults to
+  // `<cacheDir>/devfeedback/metrics.jsonl`
+  file?: string;
+}
+
+export const jsonLinesReporter = (options: JsonLinesReporterOptions = {}): Reporter => {
+  let file: string | null = null;
+  // Appends are chained so lines never interleave and flush can wait for them
+  let writing: Promise<void> = Promise.resolve();
+
+  return {
+    name: 'json-lines',
+    setup(context) {
+      file = options.file
+        ? path.resolve(context.root, options.file)
+        : path.join(context.cacheDir, 'devfeedback', 'metrics.jsonl');
+    },
+    report(payload) {
+      if (!file) return;
+      const target = file;
+      writing = writing
+        .then(async () => {
+          await fs.promises.mkdir(path.dirname(target), { recursive: true });
+          await fs.promises.appendFile(target, JSON.stringify(payload) + '\n');
+        })
+        .catch((error: unknown) => {
+          console.error('[vite-timing] Error writing metrics file:', error);
+        });
+    },
+    flush() {
+      return writing;
+    },
+  };
+};
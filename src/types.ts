@@ -1,4 +1,8 @@
+import type { Logger, Plugin } from 'vite';
+
 export interface CommonMetadata {
+  // Bumped on every breaking change to any payload
+  schemaVersion: 1;
   id: string;
   userName: string;
   cpuCount: number;
@@ -12,13 +16,118 @@ export interface CommonMetadata {
   repositoryName: string;
   timestamp: number | null;
   builtAt: string | null;
-  totalMemory: number;
-  cpuModels: string[];
-  cpuSpeed: number[];
+  totalMemory?: number;
+  cpuModels?: string[];
+  cpuSpeed?: number[];
   nodeVersion: string;
   v8Version: string;
   commitSha: string;
+  // Files `git status` lists as changed; null until the first count finishes,
+  // and up to a minute behind while files are being edited
+  dirtyFileCount: number | null;
   customIdentifier: string | null;
+  tags?: Record<string, string>;
+  ci: boolean;
+  ciProvider?: string;
+  ciPipelineId?: string;
+  ciJobId?: string;
+  ciPullRequest?: string;
+}
+
+export type StaticMetadata = Omit<
+  CommonMetadata,
+  | 'schemaVersion'
+  | 'id'
+  | 'timeTaken'
+  | 'branch'
+  | 'commitSha'
+  | 'dirtyFileCount'
+  | 'timestamp'
+  | 'builtAt'
+  | 'customIdentifier'
+  | 'tags'
+>;
+
+export interface PrivacyOptions {
+  // Only these top-level payload fields are sent, along with `type`
+  allowFields?: string[];
+
+  // These top-level payload fields are never sent
+  denyFields?: string[];
+
+  // Send `userName`, `hostname` and file paths as salted SHA-256 hashes
+  hashIdentifiers?: boolean;
+
+  // Mixed into every hash so they can't be matched against unsalted ones
+  hashSalt?: string;
+}
+
+// Extra fields merged into every payload; async providers are awaited once,
+// when the Vite config is resolved
+export type MetadataProvider = () => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+export interface DevFeedbackOptions {
+  // URL where metrics will be sent
+  endpoint?: string;
+
+  // Sampling rate for metric collection (0.0 to 1.0)
+  sampleRate?: number;
+
+  // Include system metrics like CPU and memory usage
+  includeSystemMetrics?: boolean;
+
+  // Custom tags to add to all metrics
+  tags?: Record<string, string>;
+
+  // Raw size budget for the bootstrap chunks referenced by index.html
+  bootstrapChunkSizeLimitBytes?: number;
+
+  // Whether exceeding the bootstrap chunk budget warns or fails the build
+  bootstrapChunkSizeLimitAction?: 'warn' | 'error';
+
+  // How long events are queued before being delivered together
+  flushIntervalMs?: number;
+
+  // Most events delivered in one flush; each is still its own POST, sent
+  // side by side, as the endpoint takes one payload per request
+  maxBatchSize?: number;
+
+  // Delivery attempts after the first before events are saved for the next session
+  maxRetries?: number;
+
+  // Where metrics go; defaults to a single HTTP reporter for `endpoint`
+  reporters?: Reporter[];
+
+  // Print a summary of the session when the dev server stops
+  printSessionSummary?: boolean;
+
+  // Collect nothing at all; setting DEVFEEDBACK_DISABLED does the same
+  disabled?: boolean;
+
+  // Redaction and hashing applied to every payload before any reporter sees it
+  privacy?: PrivacyOptions;
+
+  // Project-specific metadata, e.g. the team owning the app
+  metadataProviders?: MetadataProvider[];
+
+  // Time the resolveId, load and transform hooks of every other plugin
+  profilePlugins?: boolean;
+}
+
+export interface ReporterContext {
+  command: 'build' | 'serve';
+  root: string;
+  cacheDir: string;
+  logger: Pick<Logger, 'info' | 'warn'>;
+}
+
+export interface Reporter {
+  name: string;
+  // Called once the Vite config is resolved, before anything is reported
+  setup?: (context: ReporterContext) => void;
+  report: (payload: MetricsPayload) => void | Promise<void>;
+  // Called when a build finishes and when the dev server closes
+  flush?: () => Promise<void>;
 }
 
 export interface WebpackBuildData extends CommonMetadata {
@@ -29,15 +138,36 @@ export interface WebpackBuildData extends CommonMetadata {
   nbrOfRebuiltModules: number;
 }
 
+export interface ViteChunkStats {
+  fileName: string;
+  isEntry: boolean;
+  isBootstrap: boolean;
+  sizeBytes: number;
+  gzipSizeBytes: number;
+  brotliSizeBytes: number;
+}
+
 export interface ViteBundleStats {
   bootstrapChunkSizeBytes?: number
   bootstrapChunkSizeLimitBytes?: number
+  bootstrapChunkGzipSizeBytes?: number
+  bootstrapChunkBrotliSizeBytes?: number
+  totalChunkSizeBytes?: number
+  chunks?: ViteChunkStats[]
 }
 
 export interface ViteBuildData extends CommonMetadata {
   type: 'vite';
   viteVersion: string | null;
   bundleStats?: ViteBundleStats
+  buildStatus: 'success' | 'failure';
+  errorClass?: string;
+  errorCode?: string;
+  moduleCount: number;
+  chunkCount: number;
+  assetCount: number;
+  // With profilePlugins, the plugins that took longest during this build
+  slowestPlugins?: PluginTiming[];
 }
 
 export interface HMRUpdate {
@@ -48,20 +178,232 @@ export interface HMRUpdate {
 export interface ClientMessage {
   file: string;
   clientTimestamp: number;
+  beforeUpdateTimestamp?: number;
+  clientId?: string;
+  userAgent?: string;
+}
+
+// Times are milliseconds from navigation start, as the browser reports them
+export interface PageLoadMessage {
+  page: string;
+  responseStart: number | null;
+  domContentLoaded: number | null;
+  loadEvent: number | null;
+  firstContentfulPaint: number | null;
+  readyTime: number | null;
+  moduleRequestCount: number;
+  moduleTransferTime: number;
+  moduleWaterfallTime: number;
+  clientId?: string;
+  userAgent?: string;
 }
 
-export interface ViteTimingPlugin {
+export interface ViteTimingPlugin extends Plugin {
   _TEST_getChangeMap?: () => Map<string, TimingEntry>;
+  _TEST_flushMetrics?: () => Promise<void>;
 }
 
 export interface TimingEntry {
   file: string;
   changeDetectedAt: number;
+  hotUpdateAt?: number;
+  // The change's timestamp in handleHotUpdate, which Vite also gives every
+  // update it sends for the change
+  hotUpdateTimestamp?: number;
+  updateSentAt?: number;
+  // Modules that accepted the update, the paths clients report it under
+  boundaryFiles?: string[];
   moduleCount?: number;
+  hmrBoundaryCount?: number;
+  importerChainDepth?: number;
+  expectedClientCount?: number;
+  reportedClientIds?: Set<string>;
+}
+
+export interface HmrPhaseTimings {
+  // watcher `change` -> our `handleHotUpdate` (watcher latency and earlier plugins)
+  changeToHotUpdate: number | null;
+  // `handleHotUpdate` -> update payload sent over the websocket (invalidation and later plugins)
+  hotUpdateToSend: number | null;
+  // payload sent -> client `vite:beforeUpdate` (network and client scheduling)
+  sendToClient: number | null;
+  // client `vite:beforeUpdate` -> `vite:afterUpdate` (fetching and executing updated modules)
+  clientApply: number | null;
 }
 
 export interface MetricsData extends CommonMetadata {
   type: 'hmr';
   file: string;
   moduleCount?: number;
-}
\ No newline at end of file
+  hmrBoundaryCount?: number;
+  importerChainDepth?: number;
+  phases?: HmrPhaseTimings;
+  clientId?: string;
+  browserFamily?: string;
+  viteRoot?: string;
+  workspaceRoot?: string;
+  // From the package.json nearest to the file
+  packageName?: string | null;
+  packageVersion?: string | null;
+  fileOrigin?: 'project' | 'workspace-package' | 'node_modules';
+  // With profilePlugins, the plugins that took longest during this update
+  slowestPlugins?: PluginTiming[];
+}
+
+export interface DevServerStartupData extends CommonMetadata {
+  type: 'dev-server-startup';
+  viteVersion: string | null;
+  isColdStart: boolean;
+  isRestart: boolean;
+  configureServerTime: number | null;
+  serverListeningTime: number | null;
+  firstHtmlServedTime: number | null;
+}
+
+export type FullReloadReason =
+  | 'no-hmr-boundary'
+  | 'html-change'
+  | 'config-change'
+  | 'dep-optimization'
+  | 'unknown';
+
+export interface FullReloadData extends CommonMetadata {
+  type: 'full-reload';
+  file: string | null;
+  reason: FullReloadReason;
+  reloadSentTime: number | null;
+}
+
+export type HmrErrorCategory = 'syntax' | 'type' | 'resolve' | 'other';
+
+export interface HmrErrorData extends CommonMetadata {
+  type: 'hmr-error';
+  file: string | null;
+  plugin: string | null;
+  category: HmrErrorCategory;
+}
+
+export interface HmrRecoveryData extends CommonMetadata {
+  type: 'hmr-recovery';
+  file: string;
+  plugin: string | null;
+  category: HmrErrorCategory;
+  // Failures of the file before it was fixed, including the first one
+  errorCount: number;
+  // From the error overlay first appearing in a browser to the fix applying
+  overlayTime: number | null;
+}
+
+export type NoUpdateReason =
+  // The change was never handed to HMR, e.g. HMR is off or the file is excluded
+  | 'ignored-by-watcher'
+  // No module in the graph came from the file
+  | 'not-imported'
+  // The update had no browser to go to
+  | 'no-connected-client'
+  | 'unknown';
+
+export interface NoUpdateData extends CommonMetadata {
+  type: 'no-update';
+  file: string;
+  reason: NoUpdateReason;
+}
+
+// Hook time of one plugin, in milliseconds
+export interface PluginTiming {
+  plugin: string;
+  totalTime: number;
+  resolveIdTime: number;
+  loadTime: number;
+  transformTime: number;
+  calls: number;
+  // File of the plugin's slowest single hook call
+  slowestFile: string | null;
+}
+
+export interface FileStats {
+  file: string;
+  count: number;
+  average: number;
+  max: number;
+}
+
+export interface SessionData extends CommonMetadata {
+  type: 'session';
+  sessionDuration: number;
+  hmrCount: number;
+  hmrTotalTime: number;
+  hmrP50: number;
+  hmrP95: number;
+  hmrMax: number;
+  fullReloadCount: number;
+  fullReloadTotalTime: number;
+  slowestFiles: FileStats[];
+  // With profilePlugins, every plugin's hook time over the whole session
+  pluginTimings?: PluginTiming[];
+}
+
+// A page load in dev, where every module is a request of its own; times are
+// from navigation start and timeTaken is until the app was ready
+export interface PageLoadData extends CommonMetadata {
+  type: 'page-load';
+  // Path of the page, without query or hash
+  page: string;
+  responseStartTime: number | null;
+  domContentLoadedTime: number | null;
+  loadEventTime: number | null;
+  firstContentfulPaintTime: number | null;
+  // When the app called markReady() from the client module
+  readyTime: number | null;
+  // Same-origin requests with a script, link or other initiator: the modules
+  // Vite served, stylesheets and preloads; images, fetch() calls and assets
+  // referenced from CSS aren't counted
+  moduleRequestCount: number;
+  // Summed durations of those requests, which overlap
+  moduleTransferTime: number;
+  // Until the last of those requests finished
+  moduleWaterfallTime: number;
+  clientId?: string;
+  browserFamily?: string;
+}
+
+// One run of Vite's dependency optimizer; timeTaken is the esbuild bundling
+export interface DepsOptimizationData extends CommonMetadata {
+  type: 'deps-optimization';
+  // The first run of the dev server, or one for newly discovered imports
+  kind: 'initial' | 're-optimization';
+  status: 'success' | 'failure';
+  dependencyCount: number;
+  // Dependencies discovered since the previous run, named as in the deps cache
+  newDependencies: string[];
+  // Scanning the app for imports before the initial run
+  scanTime: number | null;
+  // Whether open pages had to reload to pick up the new bundle
+  forcedReload: boolean;
+  // The edit whose new imports led to a re-optimization, if any
+  file: string | null;
+}
+
+// HMR of a server-side environment, e.g. SSR or an edge worker, timed up to
+// the changed module being loaded again
+export interface EnvironmentHmrData extends CommonMetadata {
+  type: 'environment-hmr';
+  // Vite environment the module runs in; `ssr` before Vite 6
+  environment: string;
+  file: string;
+  // From the change being detected to the module graph invalidating the file
+  invalidationTime: number;
+}
+
+export type MetricsPayload =
+  | MetricsData
+  | ViteBuildData
+  | DevServerStartupData
+  | FullReloadData
+  | HmrErrorData
+  | HmrRecoveryData
+  | NoUpdateData
+  | EnvironmentHmrData
+  | DepsOptimizationData
+  | PageLoadData
+  | SessionData;
@@ -0,0 +1,37 @@
+import type { Rollup } from 'vite';
+
+export interface BundleCounts {
+  chunkCount: number;
+  assetCount: number;
+}
+
+export const countBundleOutputs = (bundle: Rollup.OutputBundle): BundleCounts => {
+  let chunkCount = 0;
+  let assetCount = 0;
+
+  for (const output of Object.values(bundle)) {
+    if (output.type === 'chunk') {
+      chunkCount++;
+    } else {
+      assetCount++;
+    }
+  }
+
+  return { chunkCount, assetCount };
+};
+
+export interface BuildErrorInfo {
+  errorClass: string;
+  errorCode?: string;
+}
+
+export const getBuildErrorInfo = (error: unknown): BuildErrorInfo => {
+  if (error instanceof Error) {
+    const code = (error as Error & { code?: unknown }).code;
+    return {
+      errorClass: error.name !== 'Error' ? error.name : error.constructor.name,
+      errorCode: typeof code === 'string' ? code : undefined,
+    };
+  }
+  return { errorClass: typeof error };
+};
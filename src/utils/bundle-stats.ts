@@ -0,0 +1,106 @@
+import { constants, gzipSync, brotliCompressSync } from 'zlib';
+import type { Rollup } from 'vite';
+import type { ViteBundleStats, ViteChunkStats } from '../types';
+
+const isHtmlEntry = (chunk: Rollup.OutputChunk): boolean =>
+  chunk.isEntry && !!chunk.facadeModuleId && chunk.facadeModuleId.endsWith('.html');
+
+/**
+ * The bootstrap chunks are the entry chunks referenced by index.html plus every
+ * chunk they import statically, i.e. everything the browser must load before
+ * the app can start. Builds without an HTML entry (library mode) fall back to
+ * all entry chunks.
+ */
+export const getBootstrapChunkNames = (bundle: Rollup.OutputBundle): Set<string> => {
+  const chunks = Object.values(bundle).filter(
+    (output): output is Rollup.OutputChunk => output.type === 'chunk'
+  );
+  const htmlEntries = chunks.filter(isHtmlEntry);
+  const entries = htmlEntries.length > 0 ? htmlEntries : chunks.filter((chunk) => chunk.isEntry);
+
+  const bootstrap = new Set<string>();
+  const queue = entries.map((chunk) => chunk.fileName);
+  while (queue.length > 0) {
+    const fileName = queue.shift()!;
+    if (bootstrap.has(fileName)) continue;
+    bootstrap.add(fileName);
+
+    const output = bundle[fileName];
+    if (output && output.type === 'chunk') {
+      queue.push(...output.imports);
+    }
+  }
+
+  return bootstrap;
+};
+
+// Brotli's default quality of 11 takes seconds on a large chunk; 4 is about as
+// fast as gzip and still compresses better
+const BROTLI_QUALITY = 4;
+
+// A chunk's code, kept from generateBundle until the build is timed
+export interface ChunkSource {
+  fileName: string;
+  isEntry: boolean;
+  isBootstrap: boolean;
+  content: Buffer;
+}
+
+export const collectChunkSources = (bundle: Rollup.OutputBundle): ChunkSource[] => {
+  const bootstrapNames = getBootstrapChunkNames(bundle);
+  const sources: ChunkSource[] = [];
+
+  for (const output of Object.values(bundle)) {
+    if (output.type === 'chunk') {
+      sources.push({
+        fileName: output.fileName,
+        isEntry: output.isEntry,
+        isBootstrap: bootstrapNames.has(output.fileName),
+        content: Buffer.from(output.code),
+      });
+    }
+  }
+
+  return sources;
+};
+
+export const getBootstrapChunkSize = (sources: ChunkSource[]): number => {
+  return sources.filter((source) => source.isBootstrap).reduce((total, source) => total + source.content.length, 0);
+};
+
+const getChunkStats = ({ fileName, isEntry, isBootstrap, content }: ChunkSource): ViteChunkStats => {
+  return {
+    fileName,
+    isEntry,
+    isBootstrap,
+    sizeBytes: content.length,
+    gzipSizeBytes: gzipSync(content).length,
+    brotliSizeBytes: brotliCompressSync(content, {
+      params: { [constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
+    }).length,
+  };
+};
+
+/**
+ * Compresses every chunk, which takes a while on large bundles, so it runs
+ * once the build time has been taken. Every output (e.g. es + cjs library
+ * builds) carries its own copy of the bootstrap chunks, so the bootstrap
+ * sizes are those of the largest output rather than their sum.
+ */
+export const measureBundle = (outputs: ChunkSource[][]): ViteBundleStats => {
+  const measured = outputs.map((sources) => sources.map(getChunkStats));
+  const chunks = measured.flat();
+  const sum = (list: ViteChunkStats[], key: 'sizeBytes' | 'gzipSizeBytes' | 'brotliSizeBytes') =>
+    list.reduce((total, chunk) => total + chunk[key], 0);
+  const bootstrapChunks = measured
+    .map((output) => output.filter((chunk) => chunk.isBootstrap))
+    .reduce((largest, output) => (sum(output, 'sizeBytes') > sum(largest, 'sizeBytes') ? output : largest), []);
+
+  return {
+    bootstrapChunkSizeBytes: sum(bootstrapChunks, 'sizeBytes'),
+    bootstrapChunkGzipSizeBytes: sum(bootstrapChunks, 'gzipSizeBytes'),
+    bootstrapChunkBrotliSizeBytes: sum(bootstrapChunks, 'brotliSizeBytes'),
+    totalChunkSizeBytes: sum(chunks, 'sizeBytes'),
+    chunks,
+  };
+};
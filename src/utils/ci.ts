@@ -0,0 +1,86 @@
+export interface CiMetadata {
+  ci: boolean;
+  ciProvider?: string;
+  ciPipelineId?: string;
+  ciJobId?: string;
+  ciPullRequest?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+interface CiProvider {
+  name: string;
+  detect: (env: Env) => boolean;
+  pipelineId: (env: Env) => string | undefined;
+  jobId: (env: Env) => string | undefined;
+  pullRequest: (env: Env) => string | undefined;
+}
+
+// Providers that aren't building a pull request leave these unset, empty or 'false'
+const toPullRequest = (value: string | undefined): string | undefined => {
+  return value && value !== 'false' ? value : undefined;
+};
+
+const CI_PROVIDERS: CiProvider[] = [
+  {
+    name: 'github-actions',
+    detect: (env) => env.GITHUB_ACTIONS === 'true',
+    pipelineId: (env) => env.GITHUB_RUN_ID,
+    jobId: (env) => env.GITHUB_JOB,
+    pullRequest: (env) => env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//)?.[1],
+  },
+  {
+    name: 'gitlab-ci',
+    detect: (env) => env.GITLAB_CI !== undefined,
+    pipelineId: (env) => env.CI_PIPELINE_ID,
+    jobId: (env) => env.CI_JOB_ID,
+    pullRequest: (env) => toPullRequest(env.CI_MERGE_REQUEST_IID),
+  },
+  {
+    name: 'jenkins',
+    detect: (env) => env.JENKINS_URL !== undefined,
+    pipelineId: (env) => env.JOB_NAME,
+    jobId: (env) => env.BUILD_NUMBER,
+    pullRequest: (env) => toPullRequest(env.CHANGE_ID),
+  },
+  {
+    name: 'azure-pipelines',
+    detect: (env) => env.TF_BUILD?.toLowerCase() === 'true',
+    pipelineId: (env) => env.BUILD_BUILDID,
+    jobId: (env) => env.SYSTEM_JOBID,
+    pullRequest: (env) =>
+      toPullRequest(env.SYSTEM_PULLREQUEST_PULLREQUESTNUMBER ?? env.SYSTEM_PULLREQUEST_PULLREQUESTID),
+  },
+  {
+    name: 'teamcity',
+    detect: (env) => env.TEAMCITY_VERSION !== undefined,
+    pipelineId: (env) => env.TEAMCITY_BUILDCONF_NAME,
+    jobId: (env) => env.BUILD_NUMBER,
+    pullRequest: () => undefined,
+  },
+  {
+    name: 'buildkite',
+    detect: (env) => env.BUILDKITE === 'true',
+    pipelineId: (env) => env.BUILDKITE_BUILD_ID,
+    jobId: (env) => env.BUILDKITE_JOB_ID,
+    pullRequest: (env) => toPullRequest(env.BUILDKITE_PULL_REQUEST),
+  },
+];
+
+export const detectCi = (env: Env = process.env): CiMetadata => {
+  const provider = CI_PROVIDERS.find((candidate) => candidate.detect(env));
+  if (!provider) {
+    // Most other CI services at least set CI
+    const isCi = env.CI !== undefined && env.CI !== '' && env.CI !== '0' && env.CI.toLowerCase() !== 'false';
+    return isCi ? { ci: true, ciProvider: 'unknown' } : { ci: false };
+  }
+
+  const metadata: CiMetadata = { ci: true, ciProvider: provider.name };
+  const pipelineId = provider.pipelineId(env);
+  const jobId = provider.jobId(env);
+  const pullRequest = provider.pullRequest(env);
+  if (pipelineId) metadata.ciPipelineId = pipelineId;
+  if (jobId) metadata.ciJobId = jobId;
+  if (pullRequest) metadata.ciPullRequest = pullRequest;
+  return metadata;
+};
@@ -0,0 +1,30 @@
+import type { ViteDevServer } from 'vite';
+
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ['edge', /Edg(e|A|iOS)?\//],
+  ['opera', /OPR\//],
+  ['samsung', /SamsungBrowser\//],
+  ['firefox', /(Firefox|FxiOS)\//],
+  ['chrome', /(Chrome|Chromium|CriOS)\//],
+  ['safari', /Version\/[\d.]+.*Safari\//],
+];
+
+export const getBrowserFamily = (userAgent: string | undefined): string => {
+  if (!userAgent) {
+    return 'unknown';
+  }
+  const match = BROWSER_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+  return match ? match[0] : 'other';
+};
+
+// Null when the websocket server doesn't expose its clients
+export const getClientCount = (server: Pick<ViteDevServer, 'ws'>): number | null => {
+  const clients = (server.ws as { clients?: Set<unknown> }).clients;
+  return clients ? clients.size : null;
+};
+
+export const getConnectedClientCount = (server: Pick<ViteDevServer, 'ws'>): number => {
+  const count = getClientCount(server);
+  // Without a way to count clients, wait for a single report as before
+  return count ? count : 1;
+};
@@ -0,0 +1,69 @@
+import type { DepOptimizationOptions } from 'vite';
+
+export type EsbuildPlugin = NonNullable<NonNullable<DepOptimizationOptions['esbuildOptions']>['plugins']>[number];
+
+export interface OptimizerRun {
+  kind: 'initial' | 're-optimization';
+  startedAt: number;
+  finishedAt: number;
+  // Named as in Vite's deps cache, e.g. `react-dom_client`
+  dependencies: string[];
+  // Dependencies the previous run didn't have
+  newDependencies: string[];
+  scanTime: number | null;
+  failed: boolean;
+}
+
+type EntryPoints = string[] | Record<string, string> | Array<{ in: string }> | undefined;
+
+const getEntryNames = (entryPoints: EntryPoints): string[] => {
+  if (!entryPoints) return [];
+  if (!Array.isArray(entryPoints)) return Object.keys(entryPoints);
+  return entryPoints.map((entry) => (typeof entry === 'string' ? entry : entry.in));
+};
+
+/**
+ * An esbuild plugin for `optimizeDeps.esbuildOptions`, which Vite passes to
+ * both the import scan and every optimizer run. The optimizer asks esbuild for
+ * a metafile and the scan doesn't, which tells the two apart.
+ */
+export const createOptimizerObserver = (onRun: (run: OptimizerRun) => void): EsbuildPlugin => {
+  let scanTime: number | null = null;
+  let previous: Set<string> | null = null;
+
+  return {
+    name: 'vite-timing:optimize-deps',
+    setup(build) {
+      const isOptimizer = build.initialOptions.metafile === true;
+      let startedAt = Date.now();
+
+      build.onStart(() => {
+        startedAt = Date.now();
+      });
+
+      build.onEnd((result) => {
+        const finishedAt = Date.now();
+        if (!isOptimizer) {
+          scanTime = finishedAt - startedAt;
+          return;
+        }
+
+        const dependencies = getEntryNames(build.initialOptions.entryPoints as EntryPoints);
+        const known = previous;
+        const failed = result.errors.length > 0;
+        onRun({
+          kind: known ? 're-optimization' : 'initial',
+          startedAt,
+          finishedAt,
+          dependencies,
+          newDependencies: known ? dependencies.filter((dependency) => !known.has(dependency)) : [],
+          scanTime: known ? null : scanTime,
+          failed,
+        });
+        if (!failed) {
+          previous = new Set(dependencies);
+        }
+      });
+    },
+  };
+};
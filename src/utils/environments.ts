@@ -0,0 +1,76 @@
+// Browser updates are timed by the client script instead
+export const CLIENT_ENVIRONMENT = 'client';
+
+// Vite 6 hooks run with `this.environment`; before the Environment API the
+// only environment besides the browser was SSR, told apart by the `ssr` flag
+export const getEnvironmentName = (context: unknown, ssr?: boolean): string => {
+  const environment = (context as { environment?: { name?: unknown } } | undefined)?.environment;
+  if (typeof environment?.name === 'string') {
+    return environment.name;
+  }
+  return ssr ? 'ssr' : CLIENT_ENVIRONMENT;
+};
+
+export interface EnvironmentUpdate {
+  file: string;
+  environment: string;
+  changeDetectedAt: number;
+  invalidatedAt: number;
+}
+
+export interface EnvironmentTracker {
+  // An environment transforms a module only to evaluate it, so a transform of
+  // an invalidated file completes its update
+  recordTransform: (file: string, environment: string) => EnvironmentUpdate | null;
+  // Starts timing the changed file in every server environment that has
+  // loaded it, or only in `environment` when Vite reports per environment
+  recordInvalidation: (file: string, changeDetectedAt: number, at: number, environment?: string) => void;
+  // Loaded by server environments only, so no browser will report on it
+  isServerOnly: (file: string) => boolean;
+  // Drops updates of modules nothing loaded again, e.g. no page was requested
+  expire: (now: number, ttlMs: number) => void;
+}
+
+export const createEnvironmentTracker = (): EnvironmentTracker => {
+  const loadedIn = new Map<string, Set<string>>();
+  const pending = new Map<string, EnvironmentUpdate>();
+  const keyOf = (file: string, environment: string) => `${environment}:${file}`;
+
+  return {
+    recordTransform(file, environment) {
+      const environments = loadedIn.get(file) ?? new Set<string>();
+      environments.add(environment);
+      loadedIn.set(file, environments);
+
+      const key = keyOf(file, environment);
+      const update = pending.get(key);
+      if (!update) {
+        return null;
+      }
+      pending.delete(key);
+      return update;
+    },
+
+    recordInvalidation(file, changeDetectedAt, at, environment) {
+      const loaded = Array.from(loadedIn.get(file) ?? []);
+      loaded
+        .filter((name) => name !== CLIENT_ENVIRONMENT && (environment === undefined || name === environment))
+        .forEach((name) => {
+          pending.set(keyOf(file, name), { file, environment: name, changeDetectedAt, invalidatedAt: at });
+        });
+    },
+
+    isServerOnly(file) {
+      const environments = loadedIn.get(file);
+      return environments !== undefined && !environments.has(CLIENT_ENVIRONMENT);
+    },
+
+    expire(now, ttlMs) {
+      pending.forEach((update, key) => {
+        if (now - update.changeDetectedAt >= ttlMs) {
+          pending.delete(key);
+        }
+      });
+    },
+  };
+};
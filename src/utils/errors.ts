@@ -0,0 +1,81 @@
+import type { HmrErrorCategory } from '../types';
+
+// The `err` of the error payload Vite sends to clients
+export interface ViteErrorInfo {
+  message?: string;
+  id?: string;
+  plugin?: string;
+}
+
+export interface BrokenFile {
+  plugin: string | null;
+  category: HmrErrorCategory;
+  failedAt: number;
+  errorCount: number;
+  overlayShownAt?: number;
+}
+
+export interface ErrorTracker {
+  recordError: (file: string, error: ViteErrorInfo, at: number) => BrokenFile;
+  recordOverlayShown: (file: string, at: number) => void;
+  // Ends the broken state of the file, returning it if there was one
+  recover: (file: string) => BrokenFile | null;
+}
+
+const CATEGORY_PATTERNS: Array<[HmrErrorCategory, RegExp]> = [
+  ['resolve', /Failed to resolve|Could not resolve|Cannot find module|does not provide an export named|Does the file exist/i],
+  ['type', /\bTS\d{4}\b|is not assignable to|Type error/i],
+  ['syntax', /SyntaxError|Unexpected token|Unterminated|Expected .+ but found|Parse error|Missing semicolon|Unexpected character|Failed to parse source|invalid JS syntax/i],
+];
+
+export const getErrorCategory = (error: ViteErrorInfo): HmrErrorCategory => {
+  const message = error.message ?? '';
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(message));
+  if (match) {
+    return match[0];
+  }
+  // Type checker plugins report through their own overlay-facing plugin names
+  if (error.plugin && /checker|typescript/i.test(error.plugin)) {
+    return 'type';
+  }
+  return 'other';
+};
+
+export const createErrorTracker = (): ErrorTracker => {
+  const brokenFiles = new Map<string, BrokenFile>();
+
+  return {
+    recordError(file, error, at) {
+      const broken = brokenFiles.get(file);
+      if (broken) {
+        // Keep timing from the first failure, but describe the latest one
+        broken.errorCount++;
+        broken.plugin = error.plugin ?? null;
+        broken.category = getErrorCategory(error);
+        return broken;
+      }
+
+      const created: BrokenFile = {
+        plugin: error.plugin ?? null,
+        category: getErrorCategory(error),
+        failedAt: at,
+        errorCount: 1,
+      };
+      brokenFiles.set(file, created);
+      return created;
+    },
+
+    recordOverlayShown(file, at) {
+      const broken = brokenFiles.get(file);
+      if (broken && broken.overlayShownAt === undefined) {
+        broken.overlayShownAt = at;
+      }
+    },
+
+    recover(file) {
+      const broken = brokenFiles.get(file) ?? null;
+      brokenFiles.delete(file);
+      return broken;
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import path from 'path';
+import type { ResolvedConfig } from 'vite';
+import type { FullReloadReason } from '../types';
+
+export interface PendingFullReload {
+  file: string | null;
+  reason: FullReloadReason;
+  changeDetectedAt: number;
+  reloadSentAt?: number;
+}
+
+// Module-level so that a reload caused by a config change survives the server
+// restart, which re-creates the plugin before the page comes back.
+let pendingFullReload: PendingFullReload | null = null;
+
+export const setPendingFullReload = (reload: PendingFullReload): void => {
+  pendingFullReload = reload;
+};
+
+// A reload sent while no page was open would otherwise be taken by the next
+// page load, however much later that comes
+export const takePendingFullReload = (now: number, ttlMs: number): PendingFullReload | null => {
+  const reload = pendingFullReload;
+  pendingFullReload = null;
+  return reload && now - reload.changeDetectedAt < ttlMs ? reload : null;
+};
+
+export const isConfigFile = (
+  file: string,
+  config: Pick<ResolvedConfig, 'configFile' | 'configFileDependencies'>
+): boolean => {
+  return (
+    file === config.configFile ||
+    (config.configFileDependencies ?? []).includes(file) ||
+    path.basename(file).startsWith('.env')
+  );
+};
+
+export const getFullReloadReason = (file: string | null): FullReloadReason => {
+  if (file === null) {
+    // E.g. a tsconfig change or a plugin reloading the page itself; reloads
+    // of the dependency optimizer are labelled where they are detected
+    return 'unknown';
+  }
+  if (file.endsWith('.html')) {
+    return 'html-change';
+  }
+  return 'no-hmr-boundary';
+};
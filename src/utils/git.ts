@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+
+const UNKNOWN_VALUE = 'unknown';
+// How soon `git status` runs after a commit, checkout or `git add`
+const DIRTY_COUNT_DEBOUNCE_MS = 1000;
+// `git status` runs at most this often while working tree files keep
+// changing, which on a large repository costs seconds of CPU each time
+const DIRTY_COUNT_INTERVAL_MS = 60_000;
+
+export interface GitDirs {
+  // Holds HEAD; per worktree
+  gitDir: string;
+  // Holds refs and packed-refs; shared by all worktrees
+  commonDir: string;
+}
+
+export interface GitInfo {
+  branch: string;
+  commitSha: string;
+  dirtyFileCount: number | null;
+}
+
+export interface GitInfoService {
+  get: () => GitInfo;
+  // Marks branch and commit for re-reading and schedules a new dirty count
+  invalidate: () => void;
+  // Schedules a new dirty count within DIRTY_COUNT_INTERVAL_MS, for when
+  // working tree files changed
+  refreshDirtyCount: () => void;
+  close: () => void;
+}
+
+const readFile = (file: string): string | undefined => {
+  try {
+    return fs.readFileSync(file, 'utf8').trim();
+  } catch {
+    return undefined;
+  }
+};
+
+// Worktrees and submodules have a `.git` file pointing at the real git dir
+export const findGitDirs = (cwd: string): GitDirs | null => {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const dotGit = path.join(dir, '.git');
+    let stat: fs.Stats | undefined;
+    try {
+      stat = fs.statSync(dotGit);
+    } catch {
+      stat = undefined;
+    }
+
+    if (stat?.isDirectory()) {
+      return { gitDir: dotGit, commonDir: dotGit };
+    }
+    if (stat?.isFile()) {
+      const pointer = readFile(dotGit)?.match(/^gitdir:\s*(.+)$/m)?.[1];
+      if (!pointer) return null;
+      const gitDir = path.resolve(dir, pointer);
+      const commonDir = readFile(path.join(gitDir, 'commondir'));
+      return { gitDir, commonDir: commonDir ? path.resolve(gitDir, commonDir) : gitDir };
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+};
+
+export const resolveRef = (dirs: GitDirs, ref: string): string | undefined => {
+  const loose = readFile(path.join(dirs.gitDir, ref)) ?? readFile(path.join(dirs.commonDir, ref));
+  if (loose) {
+    return loose;
+  }
+
+  const packedRefs = readFile(path.join(dirs.commonDir, 'packed-refs'));
+  for (const line of packedRefs?.split('\n') ?? []) {
+    const [sha, name] = line.trim().split(' ');
+    if (name === ref) {
+      return sha;
+    }
+  }
+  return undefined;
+};
+
+// Same values `git rev-parse --abbrev-ref HEAD` and `git rev-parse HEAD` give
+export const readHead = (dirs: GitDirs): Omit<GitInfo, 'dirtyFileCount'> => {
+  const head = readFile(path.join(dirs.gitDir, 'HEAD'));
+  const ref = head?.match(/^ref:\s*(.+)$/)?.[1];
+  if (!ref) {
+    return { branch: head ? 'HEAD' : UNKNOWN_VALUE, commitSha: head ?? UNKNOWN_VALUE };
+  }
+
+  return {
+    branch: ref.replace(/^refs\/heads\//, ''),
+    // An unborn branch has no commit yet
+    commitSha: resolveRef(dirs, ref) ?? UNKNOWN_VALUE,
+  };
+};
+
+const countDirtyFiles = (cwd: string): Promise<number | null> => {
+  return new Promise((resolve) => {
+    // Without optional locks, status doesn't refresh the index, whose change
+    // would schedule another count
+    execFile('git', ['--no-optional-locks', 'status', '--porcelain'], { cwd }, (error, stdout) => {
+      resolve(error ? null : stdout.split('\n').filter((line) => line.trim()).length);
+    });
+  });
+};
+
+export const createGitInfoService = (cwd: string): GitInfoService => {
+  const dirs = findGitDirs(cwd);
+  let head: Omit<GitInfo, 'dirtyFileCount'> | null = null;
+  let dirtyFileCount: number | null = null;
+  let dirtyTimer: ReturnType<typeof setTimeout> | null = null;
+  let dirtyCountDueAt = 0;
+  let watchers: fs.FSWatcher[] = [];
+
+  // A count already due sooner is kept
+  const scheduleDirtyCount = (delay: number) => {
+    if (!dirs) return;
+    const dueAt = Date.now() + delay;
+    if (dirtyTimer) {
+      if (dirtyCountDueAt <= dueAt) return;
+      clearTimeout(dirtyTimer);
+    }
+    dirtyCountDueAt = dueAt;
+    dirtyTimer = setTimeout(() => {
+      dirtyTimer = null;
+      void countDirtyFiles(cwd).then((count) => {
+        dirtyFileCount = count;
+      });
+    }, delay);
+    dirtyTimer.unref?.();
+  };
+
+  const invalidate = () => {
+    head = null;
+    scheduleDirtyCount(DIRTY_COUNT_DEBOUNCE_MS);
+  };
+
+  // HEAD changes on checkout, any file in refs/heads on a commit to a
+  // top-level branch, packed-refs on gc; the watch isn't recursive, so the
+  // HEAD reflog catches commits to nested branch names like feature/x where
+  // reflogs are on. The index changes on `git add`, which only moves the
+  // dirty count. Without a list of files, any change counts.
+  const watch = (dir: string, files: string[] | null, onChange: () => void = invalidate) => {
+    try {
+      const watcher = fs.watch(dir, (_event, file) => {
+        if (!file || !files || files.includes(file.toString())) onChange();
+      });
+      watcher.unref?.();
+      watchers.push(watcher);
+    } catch {
+      // Nothing to watch, e.g. an unborn branch without a refs/heads dir yet
+    }
+  };
+
+  const startWatching = () => {
+    if (!dirs || watchers.length > 0) return;
+    watch(dirs.gitDir, ['HEAD']);
+    watch(dirs.gitDir, ['index'], () => scheduleDirtyCount(DIRTY_COUNT_DEBOUNCE_MS));
+    watch(dirs.commonDir, ['packed-refs']);
+    watch(path.join(dirs.commonDir, 'refs', 'heads'), null);
+    watch(path.join(dirs.gitDir, 'logs'), ['HEAD']);
+  };
+
+  return {
+    get() {
+      if (!dirs) {
+        return { branch: UNKNOWN_VALUE, commitSha: UNKNOWN_VALUE, dirtyFileCount: null };
+      }
+      if (!head) {
+        head = readHead(dirs);
+        startWatching();
+        if (dirtyFileCount === null) scheduleDirtyCount(DIRTY_COUNT_DEBOUNCE_MS);
+      }
+      return { ...head, dirtyFileCount };
+    },
+
+    invalidate,
+
+    refreshDirtyCount() {
+      scheduleDirtyCount(DIRTY_COUNT_INTERVAL_MS);
+    },
+
+    close() {
+      watchers.forEach((watcher) => watcher.close());
+      watchers = [];
+      if (dirtyTimer) {
+        clearTimeout(dirtyTimer);
+        dirtyTimer = null;
+      }
+    },
+  };
+};
+
+let gitInfoService: GitInfoService | null = null;
+
+// Shared by every plugin instance in the process, created on first use
+export const getGitInfo = (): GitInfo => {
+  if (!gitInfoService) {
+    gitInfoService = createGitInfoService(process.cwd());
+  }
+  return gitInfoService.get();
+};
+
+export const refreshGitDirtyCount = (): void => {
+  gitInfoService?.refreshDirtyCount();
+};
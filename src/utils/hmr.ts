@@ -0,0 +1,17 @@
+import type { ClientMessage, HmrPhaseTimings, TimingEntry } from '../types';
+
+const between = (start?: number, end?: number): number | null => {
+  if (start === undefined || end === undefined) {
+    return null;
+  }
+  return Math.max(0, Math.round(end - start));
+};
+
+export const computeHmrPhases = (entry: TimingEntry, message: ClientMessage): HmrPhaseTimings => {
+  return {
+    changeToHotUpdate: between(entry.changeDetectedAt, entry.hotUpdateAt),
+    hotUpdateToSend: between(entry.hotUpdateAt, entry.updateSentAt),
+    sendToClient: between(entry.updateSentAt, message.beforeUpdateTimestamp),
+    clientApply: between(message.beforeUpdateTimestamp, message.clientTimestamp),
+  };
+};
@@ -0,0 +1,21 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export const readJsonBody = <T>(req: IncomingMessage): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk.toString(); });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body) as T);
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+export const sendJson = (res: ServerResponse, data: unknown): void => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
@@ -1,7 +1,10 @@
 import os from 'os';
 import { v1 as uuidv1 } from 'uuid';
 import { spawnSync } from 'child_process';
-import type { StaticMetadata, CommonMetadata } from '../types';
+import type { StaticMetadata, CommonMetadata, DevFeedbackOptions, MetadataProvider } from '../types';
+import { detectCi } from './ci';
+import { getGitInfo } from './git';
+import { SCHEMA_VERSION } from './schema';
 
 const UNKNOWN_VALUE = 'unknown';
 
@@ -47,25 +50,62 @@ export const getStaticMetadata = (): StaticMetadata => {
     cpuSpeed: os.cpus().map((cpu) => cpu.speed),
     nodeVersion: process.version,
     v8Version: process.versions.v8,
-    commitSha: runGitCommand(['rev-parse', 'HEAD']) ?? UNKNOWN_VALUE,
+    ...detectCi(),
   };
 
   return cachedMetadata;
 };
 
+const withoutSystemMetrics = (metadata: StaticMetadata): StaticMetadata => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { totalMemory, cpuModels, cpuSpeed, ...rest } = metadata;
+  return rest;
+};
+
+// Runs every provider once; a failing provider is skipped rather than losing
+// the metrics
+export const resolveMetadataProviders = async (
+  providers: MetadataProvider[],
+  onError: (error: unknown) => void = (error) => console.warn('[vite-timing] Metadata provider failed:', error)
+): Promise<Record<string, unknown>> => {
+  const results = await Promise.allSettled(providers.map(async (provider) => provider()));
+  const merged: Record<string, unknown> = {};
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      Object.assign(merged, result.value);
+    } else {
+      onError(result.reason);
+    }
+  }
+  return merged;
+};
+
+export interface MetadataOptions extends Pick<DevFeedbackOptions, 'includeSystemMetrics' | 'tags'> {
+  // Output of the metadata providers, see resolveMetadataProviders
+  providedMetadata?: Record<string, unknown>;
+}
+
 export const getCommonMetadata = (
   timeTaken: number,
-  customIdentifier: string = process.env.npm_lifecycle_event ?? UNKNOWN_VALUE
+  customIdentifier: string = process.env.npm_lifecycle_event ?? UNKNOWN_VALUE,
+  options: MetadataOptions = {}
 ): CommonMetadata => {
-  const staticMetadata = getStaticMetadata();
+  const staticMetadata = options.includeSystemMetrics === false
+    ? withoutSystemMetrics(getStaticMetadata())
+    : getStaticMetadata();
   
   return {
     ...staticMetadata,
+    // Providers may add to or override static fields, never the per-event ones
+    ...options.providedMetadata,
+    schemaVersion: SCHEMA_VERSION,
     id: uuidv1(),
     timeTaken: Math.round(timeTaken),  // Ensure integer
-    branch: runGitCommand(['rev-parse', '--abbrev-ref', 'HEAD']) ?? UNKNOWN_VALUE,
+    // Read from .git and cached, so no git process is spawned per event
+    ...getGitInfo(),
     timestamp: Date.now(),
     builtAt: new Date().toISOString(),
     customIdentifier,
+    ...(options.tags && Object.keys(options.tags).length > 0 ? { tags: { ...options.tags } } : {}),
   };
 };
\ No newline at end of file
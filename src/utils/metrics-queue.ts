@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import type { DevFeedbackOptions, MetricsPayload } from '../types';
+import { getEndpoint, postMetrics, REQUEST_TIMEOUT_MS } from './metrics';
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+// Keeps a developer who is offline for weeks from growing the spool forever
+const MAX_SPOOLED_EVENTS = 1000;
+// How long the dev server may wait for delivery on its way out, e.g. after
+// Ctrl+C; whatever isn't delivered by then is spooled
+const DRAIN_TIMEOUT_MS = 3000;
+
+export interface MetricsQueueOptions extends Pick<DevFeedbackOptions, 'endpoint'> {
+  flushIntervalMs: number;
+  maxBatchSize: number;
+  maxRetries: number;
+}
+
+export interface MetricsQueue {
+  enqueue: (payload: MetricsPayload) => void;
+  // Sets the file undelivered events are saved to, and replays the ones a
+  // previous session left behind
+  attachSpool: (spoolFile: string) => void;
+  flush: () => Promise<void>;
+  // Delivers everything right away, ignoring backoff, and spools what fails
+  // or is still on its way after DRAIN_TIMEOUT_MS
+  drain: () => Promise<void>;
+}
+
+interface QueuedEvent {
+  payload: MetricsPayload;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export const getSpoolFile = (cacheDir: string): string => {
+  return path.join(cacheDir, 'devfeedback', 'pending-metrics.jsonl');
+};
+
+export const readSpool = (spoolFile: string): MetricsPayload[] => {
+  if (!fs.existsSync(spoolFile)) {
+    return [];
+  }
+
+  const events: MetricsPayload[] = [];
+  for (const line of fs.readFileSync(spoolFile, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as MetricsPayload);
+    } catch {
+      // A partially written line from a crashed session
+    }
+  }
+  return events;
+};
+
+export const writeSpool = (spoolFile: string, events: MetricsPayload[]): void => {
+  const kept = events.slice(-MAX_SPOOLED_EVENTS);
+  if (kept.length === 0) {
+    fs.rmSync(spoolFile, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(spoolFile), { recursive: true });
+  fs.writeFileSync(spoolFile, kept.map((event) => JSON.stringify(event)).join('\n') + '\n');
+};
+
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+};
+
+export const createMetricsQueue = (options: MetricsQueueOptions): MetricsQueue => {
+  const endpoint = getEndpoint(options);
+  let queue: QueuedEvent[] = [];
+  let spoolFile: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let flushing: Promise<void> | null = null;
+  // Aborts the requests of the flush in progress
+  let flushController: AbortController | null = null;
+
+  const spool = (events: QueuedEvent[]) => {
+    if (events.length === 0) return;
+    if (!spoolFile) {
+      console.warn(`[vite-timing] Dropped ${events.length} undelivered metrics events`);
+      return;
+    }
+    try {
+      writeSpool(spoolFile, [...readSpool(spoolFile), ...events.map((event) => event.payload)]);
+    } catch (error) {
+      console.error('[vite-timing] Error saving undelivered metrics:', error);
+    }
+  };
+
+  const schedule = (delay: number) => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, delay);
+    timer.unref?.();
+  };
+
+  // A batch is the events due in one flush, at most maxBatchSize of them. The
+  // endpoint takes one payload per request, so each is POSTed on its own, all
+  // at once, and retried on its own
+  const deliver = async (events: QueuedEvent[], isFinalAttempt: boolean, signal: AbortSignal) => {
+    const results = await Promise.allSettled(events.map((event) => postMetrics(event.payload, endpoint, signal)));
+    const failed: QueuedEvent[] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') return;
+      const event = events[index];
+      event.attempts++;
+      event.nextAttemptAt = Date.now() + getRetryDelay(event.attempts);
+      failed.push(event);
+    });
+
+    const givenUp = failed.filter((event) => isFinalAttempt || event.attempts > options.maxRetries);
+    queue.push(...failed.filter((event) => !givenUp.includes(event)));
+    spool(givenUp);
+  };
+
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing;
+
+    flushing = (async () => {
+      const now = Date.now();
+      const due = queue.filter((event) => event.nextAttemptAt <= now).slice(0, options.maxBatchSize);
+      queue = queue.filter((event) => !due.includes(event));
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      flushController = controller;
+      try {
+        await deliver(due, false, controller.signal);
+      } finally {
+        clearTimeout(timeout);
+      }
+    })().finally(() => {
+      flushing = null;
+      flushController = null;
+      if (queue.length > 0) {
+        const nextAttemptAt = Math.min(...queue.map((event) => event.nextAttemptAt));
+        schedule(Math.max(options.flushIntervalMs, nextAttemptAt - Date.now()));
+      }
+    });
+
+    return flushing;
+  };
+
+  return {
+    enqueue(payload) {
+      queue.push({ payload, attempts: 0, nextAttemptAt: 0 });
+      schedule(options.flushIntervalMs);
+    },
+
+    attachSpool(file) {
+      spoolFile = file;
+      try {
+        const replayed = readSpool(file);
+        if (replayed.length > 0) {
+          fs.rmSync(file, { force: true });
+          queue.push(...replayed.map((payload) => ({ payload, attempts: 0, nextAttemptAt: 0 })));
+          schedule(options.flushIntervalMs);
+        }
+      } catch (error) {
+        console.error('[vite-timing] Error replaying undelivered metrics:', error);
+      }
+    },
+
+    flush,
+
+    async drain() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      // Aborted requests fail, which puts their events back in the queue for
+      // the final attempt below, which fails right away and spools them
+      const deadline = new AbortController();
+      const timeout = setTimeout(() => {
+        deadline.abort();
+        flushController?.abort();
+      }, DRAIN_TIMEOUT_MS);
+
+      try {
+        await flushing;
+
+        const remaining = queue;
+        queue = [];
+        await deliver(remaining, true, deadline.signal);
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+};
@@ -1,26 +1,30 @@
-import type { MetricsData } from '../types';
+import type { DevFeedbackOptions, MetricsPayload } from '../types';
 
 const DEFAULT_ENDPOINT = 'http://compilation-metrics/vite';
 
-export const getEndpoint = (): string => {
-  return process.env.VITE_ENDPOINT ?? DEFAULT_ENDPOINT;
+// An endpoint that hangs instead of refusing, e.g. behind a VPN, would
+// otherwise hold a request open for minutes
+export const REQUEST_TIMEOUT_MS = 10_000;
+
+export const getEndpoint = (options: Pick<DevFeedbackOptions, 'endpoint'> = {}): string => {
+  return options.endpoint ?? process.env.VITE_ENDPOINT ?? DEFAULT_ENDPOINT;
 };
 
-export async function sendMetrics(metricsData: MetricsData): Promise<void> {
-  const endpoint = getEndpoint();
-  try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(metricsData),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-  } catch (error) {
-    console.error('[vite-timing] Error sending metrics:', error);
+export async function postMetrics(
+  metricsData: MetricsPayload,
+  endpoint: string,
+  signal: AbortSignal = AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+): Promise<void> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(metricsData),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+import type { ModuleNode } from 'vite';
+
+export type GraphModule = Pick<ModuleNode, 'isSelfAccepting'> & {
+  importers: Set<GraphModule>;
+  acceptedHmrDeps: Set<GraphModule>;
+};
+
+export interface HmrBlastRadius {
+  // Modules invalidated on the way from the changed file up to the HMR boundaries
+  moduleCount: number;
+  hmrBoundaryCount: number;
+  importerChainDepth: number;
+}
+
+/**
+ * Walks the importer chain the same way Vite propagates an update: upwards
+ * from the changed modules until a module accepts itself or its importer
+ * accepts it.
+ */
+export const getHmrBlastRadius = (modules: GraphModule[]): HmrBlastRadius => {
+  const invalidated = new Set<GraphModule>(modules);
+  const boundaries = new Set<GraphModule>();
+  let level = [...invalidated];
+  let levelDepth = 0;
+  let maxDepth = 0;
+
+  while (level.length > 0) {
+    const nextLevel: GraphModule[] = [];
+
+    for (const mod of level) {
+      if (mod.isSelfAccepting) {
+        boundaries.add(mod);
+        continue;
+      }
+
+      for (const importer of mod.importers) {
+        maxDepth = Math.max(maxDepth, levelDepth + 1);
+        if (importer.acceptedHmrDeps.has(mod)) {
+          boundaries.add(importer);
+          invalidated.add(importer);
+        } else if (!invalidated.has(importer)) {
+          invalidated.add(importer);
+          nextLevel.push(importer);
+        }
+      }
+    }
+
+    level = nextLevel;
+    levelDepth++;
+  }
+
+  return {
+    moduleCount: invalidated.size,
+    hmrBoundaryCount: boundaries.size,
+    importerChainDepth: maxDepth,
+  };
+};
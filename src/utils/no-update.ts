@@ -0,0 +1,26 @@
+import type { NoUpdateReason, TimingEntry } from '../types';
+
+export const getNoUpdateReason = (entry: TimingEntry, clientCount: number | null): NoUpdateReason => {
+  if (entry.hotUpdateAt === undefined) {
+    return 'ignored-by-watcher';
+  }
+  if (entry.moduleCount === 0) {
+    return 'not-imported';
+  }
+  if (clientCount === 0) {
+    return 'no-connected-client';
+  }
+  return 'unknown';
+};
+
+// Entries nobody will report on any more; an update having been sent, or a
+// client having reported already, means the change did produce one
+export const takeExpiredEntries = (
+  changeMap: Map<string, TimingEntry>,
+  now: number,
+  ttlMs: number
+): TimingEntry[] => {
+  const expired = Array.from(changeMap.values()).filter((entry) => now - entry.changeDetectedAt >= ttlMs);
+  expired.forEach((entry) => changeMap.delete(entry.file));
+  return expired.filter((entry) => entry.updateSentAt === undefined && !entry.reportedClientIds?.size);
+};
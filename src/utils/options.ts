@@ -0,0 +1,58 @@
+import type { DevFeedbackOptions, MetadataProvider, PrivacyOptions, Reporter } from '../types';
+
+export interface ResolvedOptions {
+  endpoint?: string;
+  sampleRate: number;
+  includeSystemMetrics: boolean;
+  tags: Record<string, string>;
+  bootstrapChunkSizeLimitBytes?: number;
+  bootstrapChunkSizeLimitAction: 'warn' | 'error';
+  flushIntervalMs: number;
+  maxBatchSize: number;
+  maxRetries: number;
+  reporters?: Reporter[];
+  printSessionSummary: boolean;
+  disabled: boolean;
+  privacy: PrivacyOptions;
+  metadataProviders: MetadataProvider[];
+  profilePlugins: boolean;
+}
+
+const clampSampleRate = (sampleRate: number | undefined): number => {
+  if (sampleRate === undefined || Number.isNaN(sampleRate)) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, sampleRate));
+};
+
+const isDisabledByEnv = (): boolean => {
+  const value = process.env.DEVFEEDBACK_DISABLED?.trim().toLowerCase();
+  return value !== undefined && value !== '' && value !== '0' && value !== 'false';
+};
+
+export const resolveOptions = (options: DevFeedbackOptions = {}): ResolvedOptions => {
+  return {
+    endpoint: options.endpoint,
+    sampleRate: clampSampleRate(options.sampleRate),
+    includeSystemMetrics: options.includeSystemMetrics ?? true,
+    tags: { ...options.tags },
+    bootstrapChunkSizeLimitBytes: options.bootstrapChunkSizeLimitBytes,
+    bootstrapChunkSizeLimitAction: options.bootstrapChunkSizeLimitAction ?? 'warn',
+    flushIntervalMs: options.flushIntervalMs ?? 1000,
+    maxBatchSize: options.maxBatchSize ?? 20,
+    maxRetries: options.maxRetries ?? 3,
+    reporters: options.reporters,
+    printSessionSummary: options.printSessionSummary ?? true,
+    // Either one opts out; a developer's own environment wins over shared config
+    disabled: options.disabled === true || isDisabledByEnv(),
+    privacy: { ...options.privacy },
+    metadataProviders: options.metadataProviders ?? [],
+    profilePlugins: options.profilePlugins ?? false,
+  };
+};
+
+export const shouldSample = (sampleRate: number): boolean => {
+  if (sampleRate >= 1) return true;
+  if (sampleRate <= 0) return false;
+  return Math.random() < sampleRate;
+};
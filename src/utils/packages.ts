@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+
+export type FileOrigin = 'project' | 'workspace-package' | 'node_modules';
+
+export interface PackageInfo {
+  name: string | null;
+  version: string | null;
+  dir: string;
+}
+
+export interface FileAttribution {
+  viteRoot: string;
+  workspaceRoot: string;
+  packageName: string | null;
+  packageVersion: string | null;
+  fileOrigin: FileOrigin;
+}
+
+const readPackageJson = (dir: string): Record<string, unknown> | null => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+const isWorkspaceRoot = (dir: string): boolean => {
+  if (['pnpm-workspace.yaml', 'lerna.json', 'rush.json'].some((file) => fs.existsSync(path.join(dir, file)))) {
+    return true;
+  }
+  return readPackageJson(dir)?.workspaces !== undefined;
+};
+
+// Falls back to the Vite root itself outside a monorepo
+export const findWorkspaceRoot = (root: string): string => {
+  let dir = path.resolve(root);
+  for (;;) {
+    if (isWorkspaceRoot(dir)) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(root);
+    dir = parent;
+  }
+};
+
+// Package lookups happen for every HMR update, so each directory's answer is
+// remembered for the rest of the session
+export const createPackageResolver = () => {
+  const byDir = new Map<string, PackageInfo | null>();
+
+  const findPackage = (dir: string): PackageInfo | null => {
+    if (byDir.has(dir)) {
+      return byDir.get(dir) ?? null;
+    }
+
+    const packageJson = readPackageJson(dir);
+    const parent = path.dirname(dir);
+    let info: PackageInfo | null;
+    if (packageJson) {
+      info = {
+        name: typeof packageJson.name === 'string' ? packageJson.name : null,
+        version: typeof packageJson.version === 'string' ? packageJson.version : null,
+        dir,
+      };
+    } else {
+      info = parent === dir ? null : findPackage(parent);
+    }
+    byDir.set(dir, info);
+    return info;
+  };
+
+  return {
+    // The package.json nearest to dir, looking upwards
+    findPackage: (dir: string) => findPackage(path.resolve(dir)),
+  };
+};
+
+export type PackageResolver = ReturnType<typeof createPackageResolver>;
+
+export const getFileOrigin = (file: string, owner: PackageInfo | null, project: PackageInfo | null): FileOrigin => {
+  if (file.split(/[\\/]/).includes('node_modules')) {
+    return 'node_modules';
+  }
+  // Linked workspace packages are watched at their real path, outside the app
+  return owner && project && owner.dir !== project.dir ? 'workspace-package' : 'project';
+};
+
+export const getFileAttribution = (
+  file: string,
+  viteRoot: string,
+  workspaceRoot: string,
+  packages: PackageResolver
+): FileAttribution => {
+  const owner = packages.findPackage(path.dirname(file));
+  const project = packages.findPackage(viteRoot);
+
+  return {
+    viteRoot,
+    workspaceRoot,
+    packageName: owner?.name ?? null,
+    packageVersion: owner?.version ?? null,
+    fileOrigin: getFileOrigin(file, owner, project),
+  };
+};
@@ -0,0 +1,161 @@
+import { performance } from 'perf_hooks';
+import type { Plugin } from 'vite';
+import type { PluginTiming } from '../types';
+
+export const PROFILED_HOOKS = ['resolveId', 'load', 'transform'] as const;
+export type ProfiledHook = (typeof PROFILED_HOOKS)[number];
+
+// Calls kept for attributing plugin time to individual HMR updates; an update
+// that takes longer is reported without plugin timings
+const RECENT_CALLS_MS = 60_000;
+const MAX_RECENT_CALLS = 20_000;
+
+interface HookCall {
+  plugin: string;
+  hook: ProfiledHook;
+  file: string | null;
+  startedAt: number;
+  duration: number;
+}
+
+interface PluginTotals {
+  calls: number;
+  hooks: Record<ProfiledHook, number>;
+  slowestCall: number;
+  slowestFile: string | null;
+}
+
+export interface PluginProfiler {
+  // Wraps the hooks of every plugin but the excluded one, once per plugin
+  wrapPlugins: (plugins: readonly Plugin[], exclude: string) => void;
+  record: (call: HookCall) => void;
+  // Slowest plugins first; all-time totals, or only calls started in the window
+  getTimings: (window?: { from: number; to: number }) => PluginTiming[];
+  reset: () => void;
+}
+
+type HookHandler = (this: unknown, ...args: unknown[]) => unknown;
+type Hook = HookHandler | { handler: HookHandler };
+
+// transform gets the code first and resolveId is timed against the importing file
+const getHookFile = (hook: ProfiledHook, args: unknown[]): unknown => (hook === 'load' ? args[0] : args[1]);
+
+const addCall = (totals: Map<string, PluginTotals>, call: HookCall) => {
+  const plugin = totals.get(call.plugin) ?? {
+    calls: 0,
+    hooks: { resolveId: 0, load: 0, transform: 0 },
+    slowestCall: 0,
+    slowestFile: null,
+  };
+  plugin.calls++;
+  plugin.hooks[call.hook] += call.duration;
+  if (call.duration > plugin.slowestCall) {
+    plugin.slowestCall = call.duration;
+    plugin.slowestFile = call.file;
+  }
+  totals.set(call.plugin, plugin);
+};
+
+const toTimings = (totals: Map<string, PluginTotals>): PluginTiming[] => {
+  return Array.from(totals, ([plugin, { calls, hooks, slowestFile }]) => ({
+    plugin,
+    totalTime: Math.round(hooks.resolveId + hooks.load + hooks.transform),
+    resolveIdTime: Math.round(hooks.resolveId),
+    loadTime: Math.round(hooks.load),
+    transformTime: Math.round(hooks.transform),
+    calls,
+    slowestFile,
+  })).sort((a, b) => b.totalTime - a.totalTime);
+};
+
+/**
+ * Times the resolveId, load and transform hooks of other plugins. Async hooks
+ * are timed until they settle, so plugins working in parallel each get the
+ * full wall-clock time they took.
+ */
+export const createPluginProfiler = (toFile: (id: string) => string): PluginProfiler => {
+  const wrapped = new WeakSet<Plugin>();
+  let totals = new Map<string, PluginTotals>();
+  let recent: HookCall[] = [];
+
+  const profiler: PluginProfiler = {
+    wrapPlugins(plugins, exclude) {
+      for (const plugin of plugins) {
+        if (plugin.name === exclude || wrapped.has(plugin)) continue;
+        wrapped.add(plugin);
+
+        for (const hookName of PROFILED_HOOKS) {
+          const hook = plugin[hookName] as Hook | undefined;
+          if (!hook) continue;
+          const handler = typeof hook === 'function' ? hook : hook.handler;
+
+          const timed: HookHandler = function (...args) {
+            const startedAt = Date.now();
+            const start = performance.now();
+            const done = () => {
+              const file = getHookFile(hookName, args);
+              profiler.record({
+                plugin: plugin.name,
+                hook: hookName,
+                file: typeof file === 'string' ? toFile(file) : null,
+                startedAt,
+                duration: performance.now() - start,
+              });
+            };
+
+            let result: unknown;
+            try {
+              result = handler.apply(this, args);
+            } catch (error) {
+              done();
+              throw error;
+            }
+            if (result instanceof Promise) {
+              return result.then(
+                (value: unknown) => {
+                  done();
+                  return value;
+                },
+                (error: unknown) => {
+                  done();
+                  throw error;
+                }
+              );
+            }
+            done();
+            return result;
+          };
+
+          (plugin as Record<ProfiledHook, Hook>)[hookName] = typeof hook === 'function' ? timed : { ...hook, handler: timed };
+        }
+      }
+    },
+
+    record(call) {
+      addCall(totals, call);
+      recent.push(call);
+      const oldest = call.startedAt - RECENT_CALLS_MS;
+      while (recent.length > 0 && (recent[0].startedAt < oldest || recent.length > MAX_RECENT_CALLS)) {
+        recent.shift();
+      }
+    },
+
+    getTimings(window) {
+      if (!window) {
+        return toTimings(totals);
+      }
+      const windowTotals = new Map<string, PluginTotals>();
+      recent
+        .filter((call) => call.startedAt >= window.from && call.startedAt <= window.to)
+        .forEach((call) => addCall(windowTotals, call));
+      return toTimings(windowTotals);
+    },
+
+    reset() {
+      totals = new Map();
+      recent = [];
+    },
+  };
+
+  return profiler;
+};
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import type { MetricsPayload, PluginTiming, PrivacyOptions } from '../types';
+
+const HASHED_IDENTIFIERS = ['userName', 'hostname'] as const;
+
+export const hashValue = (value: string, salt = ''): string => {
+  return createHash('sha256').update(`${salt}:${value}`).digest('hex');
+};
+
+const hashPluginTimings = (timings: PluginTiming[], salt: string): PluginTiming[] => {
+  return timings.map((timing) => ({ ...timing, slowestFile: timing.slowestFile && hashValue(timing.slowestFile, salt) }));
+};
+
+const hashFilePaths = (payload: MetricsPayload, salt: string): MetricsPayload => {
+  if ((payload.type === 'hmr' || payload.type === 'vite') && payload.slowestPlugins) {
+    payload = { ...payload, slowestPlugins: hashPluginTimings(payload.slowestPlugins, salt) };
+  }
+  if (payload.type === 'hmr' && (payload.viteRoot || payload.workspaceRoot)) {
+    payload = {
+      ...payload,
+      viteRoot: payload.viteRoot && hashValue(payload.viteRoot, salt),
+      workspaceRoot: payload.workspaceRoot && hashValue(payload.workspaceRoot, salt),
+    };
+  }
+  if (
+    (payload.type === 'hmr' ||
+      payload.type === 'full-reload' ||
+      payload.type === 'hmr-error' ||
+      payload.type === 'hmr-recovery' ||
+      payload.type === 'no-update' ||
+      payload.type === 'environment-hmr' ||
+      payload.type === 'deps-optimization') &&
+    payload.file
+  ) {
+    return { ...payload, file: hashValue(payload.file, salt) };
+  }
+  if (payload.type === 'page-load') {
+    return { ...payload, page: hashValue(payload.page, salt) };
+  }
+  if (payload.type === 'session') {
+    return {
+      ...payload,
+      slowestFiles: payload.slowestFiles.map((file) => ({ ...file, file: hashValue(file.file, salt) })),
+      ...(payload.pluginTimings && { pluginTimings: hashPluginTimings(payload.pluginTimings, salt) }),
+    };
+  }
+  return payload;
+};
+
+const filterFields = (payload: MetricsPayload, privacy: PrivacyOptions): MetricsPayload => {
+  const allowed = privacy.allowFields ? new Set(['type', ...privacy.allowFields]) : null;
+  const denied = new Set(privacy.denyFields);
+
+  const filtered = Object.fromEntries(
+    Object.entries(payload).filter(
+      ([field]) => field === 'type' || ((!allowed || allowed.has(field)) && !denied.has(field))
+    )
+  );
+  return filtered as unknown as MetricsPayload;
+};
+
+// Returns the function every payload goes through before reaching reporters
+export const createRedactor = (privacy: PrivacyOptions = {}): ((payload: MetricsPayload) => MetricsPayload) => {
+  const salt = privacy.hashSalt ?? '';
+
+  return (payload) => {
+    let redacted = payload;
+    if (privacy.hashIdentifiers) {
+      redacted = hashFilePaths(redacted, salt);
+      for (const field of HASHED_IDENTIFIERS) {
+        redacted = { ...redacted, [field]: hashValue(redacted[field], salt) };
+      }
+    }
+    if (privacy.allowFields || privacy.denyFields) {
+      redacted = filterFields(redacted, privacy);
+    }
+    return redacted;
+  };
+};
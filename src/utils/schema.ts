@@ -0,0 +1,104 @@
+import type { MetricsPayload } from '../types';
+import { payloadSchema } from '../generated/payload-schema';
+
+export const SCHEMA_VERSION = 1;
+
+// The subset of JSON Schema that scripts/generate-schema.mjs emits
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+const getJsonType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const resolveRef = (root: JsonSchema, ref: string): JsonSchema => {
+  const name = ref.replace(/^#\/\$defs\//, '');
+  const resolved = root.$defs?.[name];
+  if (!resolved) {
+    throw new Error(`Unknown schema reference ${ref}`);
+  }
+  return resolved;
+};
+
+// Returns a message per mismatch, with the path of the offending field
+export const validateAgainst = (value: unknown, schema: JsonSchema, root: JsonSchema, at = ''): string[] => {
+  const where = at || '(root)';
+  if (schema.$ref) {
+    return validateAgainst(value, resolveRef(root, schema.$ref), root, at);
+  }
+  if ('const' in schema && value !== schema.const) {
+    return [`${where} must be ${JSON.stringify(schema.const)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${where} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`];
+  }
+  if (schema.anyOf && !schema.anyOf.some((option) => validateAgainst(value, option, root, at).length === 0)) {
+    return [`${where} matches none of the allowed shapes`];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = getJsonType(value);
+    // NaN and Infinity are numbers to JavaScript but become null in JSON
+    const matches = types.includes(actual) && (actual !== 'number' || Number.isFinite(value));
+    if (!matches) {
+      return [`${where} must be ${types.join(' or ')}`];
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, index) => validateAgainst(item, items, root, `${at}[${index}]`));
+  }
+
+  if (getJsonType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const problems = (schema.required ?? [])
+      .filter((field) => record[field] === undefined)
+      .map((field) => `${at ? `${at}.` : ''}${field} is required`);
+    for (const [field, fieldValue] of Object.entries(record)) {
+      // Undefined fields are left out of the JSON
+      if (fieldValue === undefined) continue;
+      const fieldSchema = schema.properties?.[field] ?? schema.additionalProperties;
+      if (fieldSchema) {
+        problems.push(...validateAgainst(fieldValue, fieldSchema, root, at ? `${at}.${field}` : field));
+      }
+    }
+    return problems;
+  }
+
+  return [];
+};
+
+// The schema of the payload with this `type`, if any
+export const getPayloadSchema = (type: unknown): JsonSchema | undefined => {
+  return (payloadSchema.oneOf ?? [])
+    .map((option) => (option.$ref ? resolveRef(payloadSchema, option.$ref) : option))
+    .find((option) => option.properties?.type?.const === type);
+};
+
+// Checks the payload against the schema for its `type`; fields the schema
+// doesn't know, e.g. from metadata providers, are allowed
+export const validatePayload = (payload: MetricsPayload): string[] => {
+  const schema = getPayloadSchema(payload.type);
+  if (!schema) {
+    return [`unknown payload type ${JSON.stringify(payload.type)}`];
+  }
+  return validateAgainst(payload, schema, payloadSchema);
+};
@@ -0,0 +1,158 @@
+import type { FileStats, FullReloadData, MetricsPayload, PluginTiming } from '../types';
+import { formatDuration } from './format';
+
+// Events kept for the dashboard; the summary is built from every wait instead
+const MAX_SESSION_EVENTS = 5000;
+
+export interface DurationStats {
+  count: number;
+  total: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface SessionStats {
+  startedAt: number;
+  duration: number;
+  hmr: DurationStats;
+  fullReloads: DurationStats;
+  fullReloadEvents: FullReloadData[];
+  slowestFiles: FileStats[];
+  // Only known with plugin profiling on
+  pluginTimings?: PluginTiming[];
+}
+
+// What the summary needs of an HMR update or full reload
+interface Wait {
+  type: MetricsPayload['type'];
+  file?: string | null;
+  timeTaken: number;
+}
+
+export interface SessionStore {
+  // Payloads with the same change key, e.g. the HMR update of one edit as
+  // seen by every open tab, count once with the slowest time
+  add: (payload: MetricsPayload, changeKey?: object) => void;
+  getEvents: () => MetricsPayload[];
+  getStats: (topN?: number) => SessionStats;
+}
+
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+export const getDurationStats = (durations: number[]): DurationStats => {
+  const sorted = [...durations].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    total: sorted.reduce((sum, value) => sum + value, 0),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+  };
+};
+
+export const getSlowestFiles = (events: Wait[], topN: number): FileStats[] => {
+  const byFile = new Map<string, number[]>();
+  for (const event of events) {
+    if (event.type !== 'hmr' && event.type !== 'full-reload') continue;
+    if (!event.file) continue;
+    const times = byFile.get(event.file) ?? [];
+    times.push(event.timeTaken);
+    byFile.set(event.file, times);
+  }
+
+  return Array.from(byFile, ([file, times]) => ({
+    file,
+    count: times.length,
+    average: Math.round(times.reduce((sum, value) => sum + value, 0) / times.length),
+    max: Math.max(...times),
+  }))
+    .sort((a, b) => b.max - a.max)
+    .slice(0, topN);
+};
+
+export const createSessionStore = (startedAt: number = Date.now()): SessionStore => {
+  const events: MetricsPayload[] = [];
+  // Small enough to keep for the whole session, however long the day
+  const waits: Wait[] = [];
+  const fullReloadEvents: FullReloadData[] = [];
+  const waitsByChange = new WeakMap<object, Wait>();
+
+  return {
+    add(payload, changeKey) {
+      events.push(payload);
+      if (events.length > MAX_SESSION_EVENTS) {
+        events.shift();
+      }
+
+      if (payload.type !== 'hmr' && payload.type !== 'full-reload') return;
+      const known = changeKey && waitsByChange.get(changeKey);
+      if (known) {
+        known.timeTaken = Math.max(known.timeTaken, payload.timeTaken);
+        return;
+      }
+      const wait: Wait = { type: payload.type, file: payload.file, timeTaken: payload.timeTaken };
+      waits.push(wait);
+      if (changeKey) {
+        waitsByChange.set(changeKey, wait);
+      }
+      if (payload.type === 'full-reload') {
+        fullReloadEvents.push(payload);
+      }
+    },
+
+    getEvents() {
+      return [...events];
+    },
+
+    getStats(topN = 10) {
+      const timesOf = (type: Wait['type']) => waits.filter((wait) => wait.type === type).map((wait) => wait.timeTaken);
+
+      return {
+        startedAt,
+        duration: Date.now() - startedAt,
+        hmr: getDurationStats(timesOf('hmr')),
+        fullReloads: getDurationStats(timesOf('full-reload')),
+        fullReloadEvents: [...fullReloadEvents],
+        slowestFiles: getSlowestFiles(waits, topN),
+      };
+    },
+  };
+};
+
+export const formatSessionSummary = (stats: SessionStats): string[] => {
+  const lines = [
+    `Session summary (${formatDuration(stats.duration)})`,
+    `  HMR updates:   ${stats.hmr.count}, ${formatDuration(stats.hmr.total)} spent waiting`,
+  ];
+
+  if (stats.hmr.count > 0) {
+    lines.push(
+      `  HMR times:     p50 ${formatDuration(stats.hmr.p50)}, p95 ${formatDuration(stats.hmr.p95)}, max ${formatDuration(stats.hmr.max)}`
+    );
+  }
+  lines.push(`  Full reloads:  ${stats.fullReloads.count}, ${formatDuration(stats.fullReloads.total)} spent waiting`);
+  for (const reload of stats.fullReloadEvents) {
+    lines.push(`    ${formatDuration(reload.timeTaken).padStart(7)}  ${reload.file ?? '*'} (${reload.reason})`);
+  }
+
+  if (stats.slowestFiles.length > 0) {
+    lines.push('  Slowest files:');
+    for (const file of stats.slowestFiles) {
+      lines.push(`    ${formatDuration(file.max).padStart(7)}  ${file.file} (${file.count}x, avg ${formatDuration(file.average)})`);
+    }
+  }
+
+  if (stats.pluginTimings && stats.pluginTimings.length > 0) {
+    lines.push('  Plugin time:');
+    for (const timing of stats.pluginTimings) {
+      lines.push(`    ${formatDuration(timing.totalTime).padStart(7)}  ${timing.plugin} (${timing.calls} calls)`);
+    }
+  }
+
+  return lines;
+};
@@ -0,0 +1,53 @@
+const SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+// One process listener shared by every plugin instance, however many dev
+// servers or restarts a process goes through
+const handlers = new Set<() => Promise<void>>();
+let exiting = false;
+
+const onSignal = (signal: NodeJS.Signals) => {
+  const handledElsewhere = process.listenerCount(signal) > 1;
+  // A second Ctrl+C stops waiting for the handlers
+  if (exiting) {
+    if (!handledElsewhere) {
+      uninstall();
+      process.kill(process.pid, signal);
+    }
+    return;
+  }
+  exiting = true;
+  const running = Array.from(handlers, (handler) => handler());
+
+  void Promise.allSettled(running).then(() => {
+    exiting = false;
+    if (!handledElsewhere) {
+      // Without our listener the signal gets its default behaviour again
+      uninstall();
+      process.kill(process.pid, signal);
+    }
+  });
+};
+
+const install = () => {
+  SIGNALS.forEach((signal) => {
+    if (!process.listeners(signal).includes(onSignal)) {
+      process.on(signal, onSignal);
+    }
+  });
+};
+
+const uninstall = () => {
+  SIGNALS.forEach((signal) => process.off(signal, onSignal));
+};
+
+export const onExitSignal = (handler: () => Promise<void>): (() => void) => {
+  handlers.add(handler);
+  install();
+
+  return () => {
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      uninstall();
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface StartupTimings {
+  startedAt: number;
+  isRestart: boolean;
+  isColdStart: boolean;
+  configureServerAt?: number;
+  serverListeningAt?: number;
+  firstHtmlServedAt?: number;
+}
+
+// Module-level so that a server restart, which re-creates the plugin, is not
+// reported as another cold start measured from process start.
+let hasStartedBefore = false;
+
+export const getProcessStartTime = (): number => {
+  return Math.round(Date.now() - process.uptime() * 1000);
+};
+
+export const hasDepsCache = (cacheDir: string): boolean => {
+  return fs.existsSync(path.join(cacheDir, 'deps', '_metadata.json'));
+};
+
+export const createStartupTimings = (cacheDir: string): StartupTimings => {
+  const isRestart = hasStartedBefore;
+  hasStartedBefore = true;
+
+  return {
+    startedAt: isRestart ? Date.now() : getProcessStartTime(),
+    isRestart,
+    isColdStart: !hasDepsCache(cacheDir),
+  };
+};
+
+export const _TEST_resetStartupState = (): void => {
+  hasStartedBefore = false;
+};